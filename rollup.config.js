@@ -1,17 +1,29 @@
 import typescript from "@rollup/plugin-typescript";
 import shebang from "rollup-plugin-shebang-bin";
 
-export default {
+// One build per CLI output: the shebang plugin makes every script it rendered
+// executable once the first output is written, before the other one exists
+const cli = (file, format) => ({
   input: "src/index.js",
-  output: [
-    {
-      file: "dist/index.js",
-      format: "cjs",
-    },
-    {
-      file: "dist/index.esm.js",
-      format: "es",
-    },
-  ],
+  output: { file, format },
   plugins: [typescript(), shebang()],
-};
+});
+
+export default [
+  cli("dist/index.js", "cjs"),
+  cli("dist/index.esm.js", "es"),
+  {
+    input: "src/lib.ts",
+    output: [
+      {
+        file: "dist/lib.js",
+        format: "cjs",
+      },
+      {
+        file: "dist/lib.esm.js",
+        format: "es",
+      },
+    ],
+    plugins: [typescript()],
+  },
+];
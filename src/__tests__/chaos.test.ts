@@ -0,0 +1,117 @@
+import {
+  Chaos,
+  describeChaos,
+  parseLatencyRange,
+  validateChaosConfig,
+} from "../chaos";
+import { ValidationError } from "../validation";
+
+describe("Chaos", () => {
+  // Returns the given values in turn, like Math.random would
+  const sequence = (...values: number[]) => {
+    let index = 0;
+    return () => values[index++ % values.length];
+  };
+
+  it("should be off without settings", () => {
+    const chaos = new Chaos();
+
+    expect(chaos.isEnabled()).toBe(false);
+    expect(chaos.shouldDrop()).toBe(false);
+    expect(chaos.shouldDuplicate()).toBe(false);
+    expect(chaos.shouldFailApi()).toBe(false);
+    expect(chaos.latency()).toBe(0);
+    expect(chaos.order([1, 2, 3])).toEqual([1, 2, 3]);
+  });
+
+  it("should inject faults with the configured probability", () => {
+    const chaos = new Chaos({ dropRate: 0.25, apiErrorRate: 1 }, sequence(0.1, 0.5));
+
+    expect(chaos.isEnabled()).toBe(true);
+    expect(chaos.shouldDrop()).toBe(true);
+    expect(chaos.shouldDrop()).toBe(false);
+    expect(chaos.shouldFailApi()).toBe(true);
+    expect(chaos.shouldDuplicate()).toBe(false);
+  });
+
+  it("should pick a latency within the range", () => {
+    const chaos = new Chaos({ latency: { min: 100, max: 300 } }, sequence(0, 0.5, 0.999));
+
+    expect([chaos.latency(), chaos.latency(), chaos.latency()]).toEqual([100, 200, 300]);
+  });
+
+  it("should shuffle due jobs when out-of-order dispatch is on", () => {
+    const chaos = new Chaos({ outOfOrder: true }, sequence(0));
+
+    expect(chaos.order([1, 2, 3, 4])).toEqual([2, 3, 4, 1]);
+  });
+
+  it("should update and reset the settings", () => {
+    const chaos = new Chaos({ dropRate: 0.5 });
+
+    expect(chaos.update({ duplicateRate: 0.1 })).toEqual({ dropRate: 0.5, duplicateRate: 0.1 });
+    expect(chaos.reset()).toEqual({});
+    expect(chaos.isEnabled()).toBe(false);
+  });
+
+  describe("validateChaosConfig", () => {
+    it("should accept valid settings", () => {
+      expect(
+        validateChaosConfig({
+          dropRate: 0,
+          duplicateRate: 0.5,
+          latency: { min: 0, max: 2000 },
+          outOfOrder: true,
+          apiErrorRate: 1,
+        })
+      ).toEqual({
+        dropRate: 0,
+        duplicateRate: 0.5,
+        latency: { min: 0, max: 2000 },
+        outOfOrder: true,
+        apiErrorRate: 1,
+      });
+    });
+
+    it("should reject invalid settings", () => {
+      const invalid = [
+        null,
+        { dropRate: 1.5 },
+        { duplicateRate: "0.5" },
+        { latency: { min: 500, max: 100 } },
+        { latency: 100 },
+        { outOfOrder: "yes" },
+        { failRate: 0.5 },
+      ];
+
+      for (const body of invalid) {
+        expect(() => validateChaosConfig(body)).toThrow(ValidationError);
+      }
+      expect(() => validateChaosConfig({ dropRate: -1 })).toThrow(
+        expect.objectContaining({ status: 422, code: "INVALID_CHAOS_CONFIG" })
+      );
+    });
+  });
+
+  describe("parseLatencyRange", () => {
+    it("should parse single values and ranges", () => {
+      expect(parseLatencyRange("500")).toEqual({ min: 500, max: 500 });
+      expect(parseLatencyRange("100-2000")).toEqual({ min: 100, max: 2000 });
+      expect(parseLatencyRange("1s-3s")).toEqual({ min: 1000, max: 3000 });
+    });
+
+    it("should reject invalid ranges", () => {
+      expect(() => parseLatencyRange("soon")).toThrow("Invalid latency 'soon'");
+      expect(() => parseLatencyRange("2000-100")).toThrow(ValidationError);
+    });
+  });
+
+  describe("describeChaos", () => {
+    it("should summarize the active faults", () => {
+      expect(describeChaos({})).toBe("off");
+      expect(
+        describeChaos({ dropRate: 0.07, latency: { min: 100, max: 2000 }, outOfOrder: true })
+      ).toBe("dropping 7% of deliveries, adding 100-2000ms latency, dispatching out of order");
+    });
+  });
+});
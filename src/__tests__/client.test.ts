@@ -0,0 +1,316 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import {
+  apiRequest,
+  ApiError,
+  describeJobEvent,
+  formatTable,
+  parseServerSentEvents,
+  readPayload,
+  resolveServerScheduledFor,
+  streamEvents,
+  waitForJob,
+} from "../client";
+import { Job } from "../job";
+
+// Mock fetch
+global.fetch = jest.fn();
+
+describe("Client", () => {
+  beforeEach(() => {
+    (global.fetch as jest.Mock).mockReset();
+  });
+
+  describe("apiRequest", () => {
+    it("should send JSON and return the parsed response", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ id: "123" }),
+      });
+
+      const result = await apiRequest("http://localhost:3100", "/api/jobs/123", {
+        method: "PATCH",
+        body: { scheduledFor: "2024-12-31T23:59:59Z" },
+      });
+
+      expect(result).toEqual({ id: "123" });
+      expect(global.fetch).toHaveBeenCalledWith(
+        "http://localhost:3100/api/jobs/123",
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: '{"scheduledFor":"2024-12-31T23:59:59Z"}',
+        }
+      );
+    });
+
+    it("should send the api key as a bearer token", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({}),
+      });
+
+      await apiRequest("http://localhost:3100", "/api/jobs", { apiKey: "sk_local" });
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        "http://localhost:3100/api/jobs",
+        expect.objectContaining({
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: "Bearer sk_local",
+          },
+        })
+      );
+    });
+
+    it("should prefer the error message from the response", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: "Not Found",
+        json: () =>
+          Promise.resolve({
+            error: "Job not found",
+            message: "Job with id '123' does not exist",
+            code: "JOB_NOT_FOUND",
+          }),
+      });
+
+      const error = await apiRequest<never>("http://localhost:3100", "/api/jobs/123").catch(
+        (err: ApiError) => err
+      );
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.message).toBe("Job with id '123' does not exist");
+      expect(error.status).toBe(404);
+      expect(error.code).toBe("JOB_NOT_FOUND");
+    });
+
+    it("should fall back to the error field and status text", async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 400,
+          statusText: "Bad Request",
+          json: () => Promise.resolve({ error: "scheduledFor is required" }),
+        })
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 502,
+          statusText: "Bad Gateway",
+          json: () => Promise.reject(new SyntaxError("Unexpected token")),
+        });
+
+      await expect(apiRequest("http://localhost:3100", "/api/jobs/1")).rejects.toThrow(
+        "scheduledFor is required"
+      );
+      await expect(apiRequest("http://localhost:3100", "/api/jobs/1")).rejects.toThrow(
+        "Bad Gateway"
+      );
+    });
+  });
+
+  describe("readPayload", () => {
+    const stdinOf = (text: string, isTTY = false) =>
+      Object.assign(Readable.from([text]), { isTTY }) as unknown as NodeJS.ReadStream;
+
+    it("should parse an inline payload", async () => {
+      await expect(readPayload({ payload: '{"userId":123}' })).resolves.toEqual({ userId: 123 });
+    });
+
+    it("should read the payload from a file", async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "dispatched-payload-"));
+      const file = path.join(dir, "payload.json");
+      fs.writeFileSync(file, '{"from":"file"}');
+
+      try {
+        await expect(readPayload({ file })).resolves.toEqual({ from: "file" });
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should read the payload from stdin", async () => {
+      await expect(readPayload({}, stdinOf('{"from":"stdin"}'))).resolves.toEqual({
+        from: "stdin",
+      });
+      await expect(readPayload({ payload: "-" }, stdinOf("{}"))).resolves.toEqual({});
+    });
+
+    it("should reject missing, conflicting and invalid payloads", async () => {
+      await expect(readPayload({}, stdinOf("", true))).rejects.toThrow(
+        "Pass a payload inline, with --file or on stdin"
+      );
+      await expect(readPayload({ payload: "{}", file: "payload.json" })).rejects.toThrow(
+        "not both"
+      );
+      await expect(readPayload({ payload: "{oops" })).rejects.toThrow(
+        "Payload is not valid JSON"
+      );
+    });
+  });
+
+  describe("waitForJob", () => {
+    const jobResponse = (status: string) => ({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({ id: "job-1", status, attemptCount: 1 }),
+    });
+
+    it("should poll until the job reaches a final status", async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(jobResponse("QUEUED"))
+        .mockResolvedValueOnce(jobResponse("DISPATCHED"))
+        .mockResolvedValueOnce(jobResponse("FAILED"));
+
+      const job = await waitForJob("http://localhost:3100", "job-1", { interval: 1 });
+
+      expect(job.status).toBe("FAILED");
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+      expect(global.fetch).toHaveBeenCalledWith(
+        "http://localhost:3100/api/jobs/job-1",
+        expect.objectContaining({ method: "GET" })
+      );
+    });
+
+    it("should give up after the timeout", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(jobResponse("QUEUED"));
+
+      await expect(
+        waitForJob("http://localhost:3100", "job-1", { interval: 5, timeout: 20 })
+      ).rejects.toThrow("Timed out waiting for job job-1, it is still QUEUED");
+    });
+  });
+
+  describe("resolveServerScheduledFor", () => {
+    it("should resolve relative times against the server clock", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ now: "2030-01-01T02:00:00.000Z", offset: 7200000 }),
+      });
+
+      await expect(
+        resolveServerScheduledFor("http://localhost:3100", "1h", "sk_local")
+      ).resolves.toBe("2030-01-01T03:00:00.000Z");
+      expect(global.fetch).toHaveBeenCalledWith(
+        "http://localhost:3100/api/_dev/clock",
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: "Bearer sk_local" }),
+        })
+      );
+    });
+
+    it("should pass dates through without asking the server", async () => {
+      await expect(
+        resolveServerScheduledFor("http://localhost:3100", "2030-01-01T09:00:00Z")
+      ).resolves.toBe("2030-01-01T09:00:00Z");
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("parseServerSentEvents", () => {
+    it("should split complete events and keep the unfinished rest", () => {
+      const { events, rest } = parseServerSentEvents(
+        ': connected\n\nid: 1\nevent: job.created\ndata: {"a":1}\n\ndata: line 1\ndata: line 2\n\nid: 3\nda'
+      );
+
+      expect(events).toEqual([
+        { id: "1", event: "job.created", data: '{"a":1}' },
+        { event: "message", data: "line 1\nline 2" },
+      ]);
+      expect(rest).toBe("id: 3\nda");
+    });
+  });
+
+  describe("streamEvents", () => {
+    const streamOf = (chunks: string[]) => {
+      const encoder = new TextEncoder();
+      const reads = chunks.map((chunk) => ({ done: false, value: encoder.encode(chunk) }));
+      return {
+        getReader: () => ({
+          read: () => Promise.resolve(reads.shift() ?? { done: true, value: undefined }),
+        }),
+      };
+    };
+
+    it("should call back for events split across chunks", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        body: streamOf(["event: job.created\nda", 'ta: {"id":1}\n\n', ": heartbeat\n\n"]),
+      });
+      const onEvent = jest.fn();
+
+      await streamEvents("http://localhost:3100", "/api/events", { apiKey: "sk_local" }, onEvent);
+
+      expect(global.fetch).toHaveBeenCalledWith("http://localhost:3100/api/events", {
+        headers: { Accept: "text/event-stream", Authorization: "Bearer sk_local" },
+      });
+      expect(onEvent).toHaveBeenCalledTimes(1);
+      expect(onEvent).toHaveBeenCalledWith({ event: "job.created", data: '{"id":1}' });
+    });
+
+    it("should throw the server's error", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        statusText: "Unauthorized",
+        json: () => Promise.resolve({ message: "Missing API key", code: "MISSING_API_KEY" }),
+      });
+
+      await expect(
+        streamEvents("http://localhost:3100", "/api/events", {}, jest.fn())
+      ).rejects.toThrow("Missing API key");
+    });
+  });
+
+  describe("formatTable", () => {
+    it("should pad columns to the widest value", () => {
+      const table = formatTable(
+        [
+          { id: "abc", status: "QUEUED" },
+          { id: "a", status: undefined },
+        ],
+        [
+          { key: "id", label: "ID" },
+          { key: "status", label: "STATUS" },
+        ]
+      );
+
+      expect(table).toBe(["ID   STATUS", "abc  QUEUED", "a    -"].join("\n"));
+    });
+  });
+
+  describe("describeJobEvent", () => {
+    it("should describe the outcome of an attempt", () => {
+      const line = describeJobEvent({
+        id: 3,
+        type: "attempt.failed",
+        time: "2030-01-01T10:00:00.000Z",
+        job: {
+          id: "job-1",
+          status: "FAILED",
+          scheduledFor: "2030-01-01T10:00:00.000Z",
+          payload: {},
+          attemptCount: 1,
+        } as Job,
+        attempt: {
+          attemptId: "attempt-1",
+          attemptNumber: 1,
+          startedAt: "2030-01-01T10:00:00.000Z",
+          url: "http://localhost:3000/webhook",
+          duration: 12,
+          statusCode: 500,
+        },
+      });
+
+      expect(line).toContain("attempt.failed");
+      expect(line).toContain("job-1  FAILED  attempt 1  HTTP 500 in 12ms");
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { CONFIG_FILE_NAME, loadConfigFile } from "../config";
+
+describe("Config File", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "dispatched-config-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should load option values from the config file", () => {
+    fs.writeFileSync(
+      path.join(dir, CONFIG_FILE_NAME),
+      JSON.stringify({ secret: "abc123", port: 3200 })
+    );
+
+    expect(loadConfigFile(CONFIG_FILE_NAME, dir)).toEqual({
+      secret: "abc123",
+      port: 3200,
+    });
+  });
+
+  it("should ignore a missing default config file", () => {
+    expect(loadConfigFile(CONFIG_FILE_NAME, dir)).toEqual({});
+    expect(loadConfigFile(path.join(dir, CONFIG_FILE_NAME), dir)).toEqual({});
+  });
+
+  it("should require an explicitly passed config file to exist", () => {
+    expect(() => loadConfigFile("custom.json", dir)).toThrow("Config file not found");
+  });
+
+  it("should reject config files that are not a JSON object", () => {
+    fs.writeFileSync(path.join(dir, "custom.json"), JSON.stringify(["abc123"]));
+
+    expect(() => loadConfigFile("custom.json", dir)).toThrow(
+      "Config file must contain a JSON object"
+    );
+  });
+});
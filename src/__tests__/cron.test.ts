@@ -0,0 +1,55 @@
+import { nextCronRun, parseCron } from "../cron";
+
+describe("Cron", () => {
+  describe("parseCron", () => {
+    it("should expand wildcards, ranges, lists and steps", () => {
+      const schedule = parseCron("*/15 9-17 1,15 * 1-5");
+
+      expect(schedule.minutes).toEqual([0, 15, 30, 45]);
+      expect(schedule.hours).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+      expect(schedule.daysOfMonth).toEqual([1, 15]);
+      expect(schedule.months).toHaveLength(12);
+      expect(schedule.daysOfWeek).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it("should support macros and Sunday as 7", () => {
+      expect(parseCron("@daily")).toEqual(parseCron("0 0 * * *"));
+      expect(parseCron("0 0 * * 7").daysOfWeek).toEqual([0]);
+    });
+
+    it("should reject invalid expressions", () => {
+      expect(() => parseCron("* * * *")).toThrow("Cron expression must have 5 fields");
+      expect(() => parseCron("60 * * * *")).toThrow(
+        "Invalid minute '60', expected values from 0 to 59"
+      );
+      expect(() => parseCron("* * * * mon")).toThrow("Invalid day of week 'mon'");
+      expect(() => parseCron("*/0 * * * *")).toThrow("Invalid minute");
+    });
+  });
+
+  describe("nextCronRun", () => {
+    const next = (expression: string, after: string) =>
+      nextCronRun(parseCron(expression), new Date(after))?.toISOString();
+
+    it("should find the next matching minute", () => {
+      expect(next("* * * * *", "2030-01-01T10:00:30Z")).toBe("2030-01-01T10:01:00.000Z");
+      expect(next("*/15 * * * *", "2030-01-01T10:15:00Z")).toBe("2030-01-01T10:30:00.000Z");
+    });
+
+    it("should roll over hours, days and months", () => {
+      expect(next("0 3 * * *", "2030-01-01T10:00:00Z")).toBe("2030-01-02T03:00:00.000Z");
+      expect(next("30 0 1 * *", "2030-01-31T23:59:00Z")).toBe("2030-02-01T00:30:00.000Z");
+      expect(next("0 0 29 2 *", "2030-03-01T00:00:00Z")).toBe("2032-02-29T00:00:00.000Z");
+    });
+
+    it("should match either a restricted day of month or day of week", () => {
+      // 2030-01-01 is a Tuesday
+      expect(next("0 0 15 * 5", "2030-01-01T00:00:00Z")).toBe("2030-01-04T00:00:00.000Z");
+      expect(next("0 0 * * 5", "2030-01-01T00:00:00Z")).toBe("2030-01-04T00:00:00.000Z");
+    });
+
+    it("should give up on expressions that never match", () => {
+      expect(next("0 0 30 2 *", "2030-01-01T00:00:00Z")).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  formatServerSentEvent,
+  JobEvent,
+  JobEventBus,
+  matchesEventFilter,
+} from "../events";
+import { Job } from "../job";
+
+describe("Events", () => {
+  const job = {
+    id: "job-1",
+    status: "QUEUED",
+    scheduledFor: "2030-01-01T10:00:00.000Z",
+    createdAt: "2030-01-01T09:00:00.000Z",
+    payload: {},
+    attemptCount: 0,
+    attempts: [],
+  } as Job;
+
+  const event = (changes: Partial<JobEvent> = {}): JobEvent => ({
+    id: 1,
+    type: "job.created",
+    time: "2030-01-01T09:00:00.000Z",
+    job,
+    ...changes,
+  });
+
+  describe("JobEventBus", () => {
+    it("should number events and deliver them to every listener", () => {
+      const bus = new JobEventBus();
+      const first = jest.fn();
+      const second = jest.fn();
+      bus.subscribe(first);
+      bus.subscribe(second);
+
+      bus.publish({ type: "job.created", time: job.createdAt, job });
+      bus.publish({ type: "job.cancelled", time: job.createdAt, job });
+
+      expect(first).toHaveBeenCalledTimes(2);
+      expect(second).toHaveBeenLastCalledWith(
+        expect.objectContaining({ id: 2, type: "job.cancelled" })
+      );
+    });
+
+    it("should stop delivering events after unsubscribing", () => {
+      const bus = new JobEventBus();
+      const listener = jest.fn();
+      const unsubscribe = bus.subscribe(listener);
+
+      unsubscribe();
+      bus.publish({ type: "job.created", time: job.createdAt, job });
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(bus.listenerCount()).toBe(0);
+    });
+  });
+
+  describe("matchesEventFilter", () => {
+    it("should match every event without filters", () => {
+      expect(matchesEventFilter(event(), {})).toBe(true);
+    });
+
+    it("should match by job id and status", () => {
+      expect(matchesEventFilter(event(), { jobIds: ["job-1", "job-2"] })).toBe(true);
+      expect(matchesEventFilter(event(), { jobIds: ["job-2"] })).toBe(false);
+      expect(matchesEventFilter(event(), { statuses: ["QUEUED"] })).toBe(true);
+      expect(matchesEventFilter(event(), { jobIds: ["job-1"], statuses: ["FAILED"] })).toBe(
+        false
+      );
+    });
+  });
+
+  describe("formatServerSentEvent", () => {
+    it("should write the id, the type and the event as data", () => {
+      expect(formatServerSentEvent(event({ id: 7 }))).toBe(
+        `id: 7\nevent: job.created\ndata: ${JSON.stringify(event({ id: 7 }))}\n\n`
+      );
+    });
+  });
+});
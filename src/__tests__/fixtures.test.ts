@@ -0,0 +1,124 @@
+import { FIXTURE_VERSION, parseFixture, rebaseFixture } from "../fixtures";
+import { ValidationError } from "../validation";
+
+describe("Fixtures", () => {
+  const job = {
+    id: "job-1",
+    status: "FAILED",
+    scheduledFor: "2030-01-01T10:05:00.000Z",
+    createdAt: "2030-01-01T09:00:00.000Z",
+    payload: { hello: "world" },
+    attemptCount: 1,
+    attempts: [
+      {
+        attemptId: "attempt-1",
+        attemptNumber: 1,
+        startedAt: "2030-01-01T10:05:00.000Z",
+        duration: 12,
+        statusCode: 500,
+      },
+    ],
+    nextAttemptAt: "2030-01-01T10:06:00.000Z",
+  };
+
+  const schedule = {
+    id: "schedule-1",
+    status: "ACTIVE",
+    every: "15m",
+    payload: {},
+    createdAt: "2030-01-01T09:00:00.000Z",
+    runCount: 4,
+    nextRunAt: "2030-01-01T10:15:00.000Z",
+  };
+
+  describe("parseFixture", () => {
+    it("should accept an exported fixture", () => {
+      const fixture = parseFixture({
+        version: FIXTURE_VERSION,
+        exportedAt: "2030-01-01T10:00:00.000Z",
+        jobs: [job],
+        schedules: [schedule],
+      });
+
+      expect(fixture.jobs).toEqual([job]);
+      expect(fixture.schedules).toEqual([schedule]);
+    });
+
+    it("should fill in the optional parts of hand-written fixtures", () => {
+      const fixture = parseFixture({
+        jobs: [
+          {
+            id: "job-2",
+            status: "QUEUED",
+            scheduledFor: "2030-01-01T10:00:00Z",
+            createdAt: "2030-01-01T09:00:00Z",
+            payload: {},
+          },
+        ],
+      });
+
+      expect(fixture.schedules).toEqual([]);
+      expect(fixture.jobs[0]).toMatchObject({ attemptCount: 0, attempts: [] });
+    });
+
+    it("should reject invalid fixtures", () => {
+      const invalid = [
+        [],
+        { jobs: "none" },
+        { jobs: [{ ...job, id: undefined }] },
+        { jobs: [{ ...job, status: "DONE" }] },
+        { jobs: [{ ...job, scheduledFor: "soon" }] },
+        { jobs: [{ ...job, nextAttemptAt: "garbage" }] },
+        { jobs: [{ ...job, attempts: [null] }] },
+        { jobs: [{ ...job, attempts: [{ attemptId: "attempt-1" }] }] },
+        { jobs: [], schedules: [{ ...schedule, every: undefined }] },
+        { jobs: [], schedules: [{ ...schedule, every: undefined, cron: "not a cron" }] },
+        { jobs: [], schedules: [{ ...schedule, every: "500ms" }] },
+        { jobs: [], schedules: [{ ...schedule, nextRunAt: "later" }] },
+        { jobs: [], exportedAt: "yesterday" },
+      ];
+
+      for (const input of invalid) {
+        expect(() => parseFixture(input)).toThrow(ValidationError);
+      }
+      expect(() => parseFixture({ jobs: "none" })).toThrow(
+        expect.objectContaining({ status: 400, code: "INVALID_FIXTURE" })
+      );
+      expect(() =>
+        parseFixture({ jobs: [], schedules: [{ ...schedule, every: undefined, cron: "* * *" }] })
+      ).toThrow("schedules[0] has an invalid 'cron'");
+    });
+  });
+
+  describe("rebaseFixture", () => {
+    it("should move every time by the time passed since the export", () => {
+      const fixture = parseFixture({
+        exportedAt: "2030-01-01T10:00:00.000Z",
+        jobs: [job],
+        schedules: [schedule],
+      });
+
+      const rebased = rebaseFixture(fixture, new Date("2030-01-03T10:00:00.000Z"));
+
+      expect(rebased.exportedAt).toBe("2030-01-03T10:00:00.000Z");
+      expect(rebased.jobs[0]).toMatchObject({
+        scheduledFor: "2030-01-03T10:05:00.000Z",
+        createdAt: "2030-01-03T09:00:00.000Z",
+        nextAttemptAt: "2030-01-03T10:06:00.000Z",
+      });
+      expect(rebased.jobs[0].attempts[0].startedAt).toBe("2030-01-03T10:05:00.000Z");
+      expect(rebased.schedules[0]).toMatchObject({
+        createdAt: "2030-01-03T09:00:00.000Z",
+        nextRunAt: "2030-01-03T10:15:00.000Z",
+      });
+    });
+
+    it("should require the export time", () => {
+      const fixture = parseFixture({ jobs: [job] });
+
+      expect(() => rebaseFixture(fixture, new Date())).toThrow(
+        expect.objectContaining({ status: 422, code: "INVALID_FIXTURE" })
+      );
+    });
+  });
+});
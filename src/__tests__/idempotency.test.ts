@@ -0,0 +1,54 @@
+import { IdempotencyCache, resolveIdempotencyKey } from "../idempotency";
+import { ValidationError } from "../validation";
+
+describe("Idempotency", () => {
+  describe("IdempotencyCache", () => {
+    const request = { payload: { orderId: 42 }, queue: "orders" };
+
+    it("should return the job recorded for a repeated request", () => {
+      const cache = new IdempotencyCache(60);
+
+      expect(cache.lookup("key", request, 0)).toBeUndefined();
+      cache.remember("key", request, "job-1", 0);
+
+      expect(cache.lookup("key", { queue: "orders", payload: { orderId: 42 } }, 1000)).toBe(
+        "job-1"
+      );
+    });
+
+    it("should reject a reused key with a different request", () => {
+      const cache = new IdempotencyCache(60);
+      cache.remember("key", request, "job-1", 0);
+
+      expect(() => cache.lookup("key", { payload: { orderId: 43 } }, 1000)).toThrow(
+        expect.objectContaining({ status: 409, code: "IDEMPOTENCY_KEY_REUSED" })
+      );
+    });
+
+    it("should forget keys once the window has passed", () => {
+      const cache = new IdempotencyCache(60);
+      cache.remember("key", request, "job-1", 0);
+
+      expect(cache.lookup("key", request, 59999)).toBe("job-1");
+      expect(cache.lookup("key", { payload: {} }, 60000)).toBeUndefined();
+    });
+  });
+
+  describe("resolveIdempotencyKey", () => {
+    it("should accept the key from the header or the body", () => {
+      expect(resolveIdempotencyKey("a", undefined)).toBe("a");
+      expect(resolveIdempotencyKey(undefined, "b")).toBe("b");
+      expect(resolveIdempotencyKey("c", "c")).toBe("c");
+      expect(resolveIdempotencyKey(undefined, undefined)).toBeUndefined();
+    });
+
+    it("should reject mismatched or invalid keys", () => {
+      expect(() => resolveIdempotencyKey("a", "b")).toThrow(ValidationError);
+      expect(() => resolveIdempotencyKey(undefined, "")).toThrow(ValidationError);
+      expect(() => resolveIdempotencyKey(undefined, 42)).toThrow(ValidationError);
+      expect(() => resolveIdempotencyKey("x".repeat(256), undefined)).toThrow(
+        "Idempotency key must be a string of 1 to 255 characters"
+      );
+    });
+  });
+});
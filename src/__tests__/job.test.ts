@@ -0,0 +1,52 @@
+import { canTransition, InvalidTransitionError, Job, transitionJob } from "../job";
+
+describe("Job", () => {
+  const job: Job<{ data: string }> = {
+    id: "job-1",
+    status: "QUEUED",
+    scheduledFor: "2030-01-01T00:00:00.000Z",
+    payload: { data: "test" },
+    createdAt: "2030-01-01T00:00:00.000Z",
+    attemptCount: 0,
+    attempts: [],
+  };
+
+  describe("canTransition", () => {
+    it("should allow the normal lifecycle of a job", () => {
+      expect(canTransition("QUEUED", "DISPATCHED")).toBe(true);
+      expect(canTransition("DISPATCHED", "COMPLETED")).toBe(true);
+      expect(canTransition("DISPATCHED", "FAILED")).toBe(true);
+      expect(canTransition("DISPATCHED", "QUEUED")).toBe(true);
+      expect(canTransition("FAILED", "QUEUED")).toBe(true);
+      expect(canTransition("COMPLETED", "QUEUED")).toBe(true);
+    });
+
+    it("should only allow cancelling queued jobs", () => {
+      expect(canTransition("QUEUED", "CANCELLED")).toBe(true);
+      expect(canTransition("DISPATCHED", "CANCELLED")).toBe(false);
+      expect(canTransition("COMPLETED", "CANCELLED")).toBe(false);
+      expect(canTransition("FAILED", "CANCELLED")).toBe(false);
+    });
+
+    it("should not allow leaving the CANCELLED status", () => {
+      expect(canTransition("CANCELLED", "QUEUED")).toBe(false);
+      expect(canTransition("CANCELLED", "DISPATCHED")).toBe(false);
+    });
+  });
+
+  describe("transitionJob", () => {
+    it("should return a copy with the new status and changes", () => {
+      const dispatched = transitionJob(job, "DISPATCHED", { attemptCount: 1 });
+
+      expect(dispatched).toEqual({ ...job, status: "DISPATCHED", attemptCount: 1 });
+      expect(job.status).toBe("QUEUED");
+    });
+
+    it("should throw for an illegal transition", () => {
+      expect(() => transitionJob(job, "COMPLETED")).toThrow(InvalidTransitionError);
+      expect(() => transitionJob(job, "COMPLETED")).toThrow(
+        "Job job-1 cannot go from QUEUED to COMPLETED"
+      );
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { DispatchLimiter } from "../limiter";
+
+describe("DispatchLimiter", () => {
+  it("should not limit anything by default", () => {
+    const limiter = new DispatchLimiter();
+
+    for (let i = 0; i < 100; i++) {
+      expect(limiter.tryAcquire()).toBe(true);
+    }
+    expect(limiter.retryAfter()).toBe(0);
+  });
+
+  it("should limit the deliveries in flight", () => {
+    const limiter = new DispatchLimiter({ concurrency: 2 });
+
+    expect(limiter.tryAcquire()).toBe(true);
+    expect(limiter.tryAcquire()).toBe(true);
+    expect(limiter.tryAcquire()).toBe(false);
+    expect(limiter.getInFlight()).toBe(2);
+
+    limiter.release();
+    expect(limiter.tryAcquire()).toBe(true);
+  });
+
+  it("should limit the deliveries started per second", () => {
+    let now = 10000;
+    const limiter = new DispatchLimiter({ rateLimit: 2 }, () => now);
+
+    expect(limiter.tryAcquire()).toBe(true);
+    now += 400;
+    expect(limiter.tryAcquire()).toBe(true);
+    limiter.release();
+    limiter.release();
+
+    expect(limiter.tryAcquire()).toBe(false);
+    expect(limiter.retryAfter()).toBe(600);
+
+    now += 600;
+    expect(limiter.tryAcquire()).toBe(true);
+  });
+});
@@ -0,0 +1,100 @@
+import { Logger } from "../logger";
+
+describe("Logger", () => {
+  let logSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, "log").mockImplementation();
+    warnSpy = jest.spyOn(console, "warn").mockImplementation();
+    errorSpy = jest.spyOn(console, "error").mockImplementation();
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  it("should skip events below the configured level", () => {
+    const logger = new Logger({ level: "warn" });
+
+    logger.debug("job.received", "Job Received");
+    logger.info("job.created", "Job created");
+    logger.warn("attempt.failed", "Webhook Error");
+    logger.error("request.error", "Error processing request");
+
+    expect(logSpy).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith("Webhook Error");
+    expect(errorSpy).toHaveBeenCalledWith("Error processing request");
+  });
+
+  it("should only print data for debug and error events in text mode", () => {
+    const logger = new Logger({ level: "debug" });
+
+    logger.info("job.created", "Job created", { jobId: "123" });
+    logger.debug("job.received", "Job Received", { body: { a: 1 } });
+
+    expect(logSpy).toHaveBeenNthCalledWith(1, "Job created");
+    expect(logSpy).toHaveBeenNthCalledWith(2, "Job Received", { body: { a: 1 } });
+  });
+
+  it("should print one JSON event per line", () => {
+    const logger = new Logger({ format: "json" });
+
+    logger.warn("attempt.failed", "Webhook Error", { jobId: "123", statusCode: 500 });
+
+    expect(logSpy).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(logSpy.mock.calls[0][0])).toEqual({
+      time: expect.any(String),
+      level: "warn",
+      event: "attempt.failed",
+      message: "Webhook Error",
+      jobId: "123",
+      statusCode: 500,
+    });
+  });
+
+  it("should redact secrets and sensitive headers", () => {
+    const logger = new Logger({
+      level: "debug",
+      format: "json",
+      secrets: ["whsec-abc123", undefined],
+    });
+
+    logger.debug("attempt.started", "Sending with whsec-abc123", {
+      headers: { Authorization: "Bearer whsec-abc123", "X-Dispatched-Signature": "sha256=ff" },
+      body: { note: "token whsec-abc123 in payload", items: ["whsec-abc123"] },
+      error: new Error("failed for whsec-abc123"),
+    });
+
+    const event = JSON.parse(logSpy.mock.calls[0][0]);
+    expect(event.message).toBe("Sending with [REDACTED]");
+    expect(event.headers).toEqual({
+      Authorization: "[REDACTED]",
+      "X-Dispatched-Signature": "[REDACTED]",
+    });
+    expect(event.body).toEqual({
+      note: "token [REDACTED] in payload",
+      items: ["[REDACTED]"],
+    });
+    expect(event.error).toBe("failed for [REDACTED]");
+  });
+
+  it("should only mask short secrets where they are the whole value", () => {
+    const logger = new Logger({ level: "debug", format: "json", secrets: ["s", "abc123"] });
+
+    logger.debug("job.created", "Job abc1234 has status QUEUED", {
+      jobId: "abc1234",
+      token: "abc123",
+      forwarded: "sent with Bearer abc123",
+    });
+
+    const event = JSON.parse(logSpy.mock.calls[0][0]);
+    expect(event.message).toBe("Job abc1234 has status QUEUED");
+    expect(event.jobId).toBe("abc1234");
+    expect(event.token).toBe("[REDACTED]");
+    expect(event.forwarded).toBe("sent with Bearer [REDACTED]");
+  });
+});
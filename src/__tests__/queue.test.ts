@@ -0,0 +1,163 @@
+import { Job } from "../job";
+import { DueQueue, QueuedJobStore } from "../queue";
+import { MemoryJobStore } from "../store";
+
+describe("DueQueue", () => {
+  // Deterministic pseudo-random numbers, so failures can be reproduced
+  const random = (seed: number) => () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+
+  it("should hand out jobs in due order, in insertion order for equal times", () => {
+    const queue = new DueQueue();
+    queue.set("c", 3000);
+    queue.set("a", 1000);
+    queue.set("b1", 2000);
+    queue.set("b2", 2000);
+
+    expect(queue.peek()).toBe(1000);
+    expect(queue.takeDue(2000)).toEqual(["a", "b1", "b2"]);
+    expect(queue.size()).toBe(1);
+    expect(queue.takeDue(2999)).toEqual([]);
+    expect(queue.takeDue(3000)).toEqual(["c"]);
+    expect(queue.peek()).toBeUndefined();
+  });
+
+  it("should move jobs that are set again", () => {
+    const queue = new DueQueue();
+    queue.set("a", 1000);
+    queue.set("b", 2000);
+    queue.set("c", 3000);
+
+    queue.set("c", 500);
+    queue.set("a", 2500);
+
+    expect(queue.size()).toBe(3);
+    expect(queue.takeDue(5000)).toEqual(["c", "b", "a"]);
+  });
+
+  it("should remove jobs", () => {
+    const queue = new DueQueue();
+    queue.set("a", 1000);
+    queue.set("b", 2000);
+    queue.set("c", 3000);
+
+    expect(queue.delete("a")).toBe(true);
+    expect(queue.delete("a")).toBe(false);
+    expect(queue.has("a")).toBe(false);
+    expect(queue.peek()).toBe(2000);
+
+    queue.clear();
+    expect(queue.size()).toBe(0);
+  });
+
+  it("should stay ordered through random changes", () => {
+    const next = random(42);
+    const queue = new DueQueue();
+    const expected = new Map<string, number>();
+
+    for (let i = 0; i < 2000; i++) {
+      const id = `job-${Math.floor(next() * 500)}`;
+      if (next() < 0.2) {
+        queue.delete(id);
+        expected.delete(id);
+      } else {
+        const dueAt = Math.floor(next() * 10000);
+        queue.set(id, dueAt);
+        expected.set(id, dueAt);
+      }
+    }
+
+    const taken = queue.takeDue(Infinity);
+    expect(taken.sort()).toEqual(Array.from(expected.keys()).sort());
+
+    // Refill to check the order, ids are unique this time
+    Array.from(expected.entries()).forEach(([id, dueAt]) => queue.set(id, dueAt));
+    const dueTimes = queue.takeDue(Infinity).map((id) => expected.get(id)!);
+    expect(dueTimes).toEqual(dueTimes.slice().sort((a, b) => a - b));
+  });
+
+  it("should handle large queues quickly", () => {
+    const next = random(7);
+    const queue = new DueQueue();
+    const jobs = 100000;
+
+    const startedAt = Date.now();
+    for (let i = 0; i < jobs; i++) {
+      queue.set(`job-${i}`, Math.floor(next() * 86400000));
+    }
+    for (let i = 0; i < jobs; i += 10) {
+      queue.set(`job-${i}`, Math.floor(next() * 86400000)); // rescheduled
+      queue.delete(`job-${i + 5}`); // cancelled
+    }
+
+    let taken = 0;
+    let inOrder = true;
+    for (let hour = 1; hour <= 24; hour++) {
+      const now = hour * 3600000;
+      taken += queue.takeDue(now).length;
+      inOrder = inOrder && (queue.peek() === undefined || queue.peek()! > now);
+    }
+    const elapsed = Date.now() - startedAt;
+
+    expect(taken).toBe(jobs - jobs / 10);
+    expect(inOrder).toBe(true);
+    // Generous, so slow CI machines pass too
+    expect(elapsed).toBeLessThan(2000);
+  });
+});
+
+describe("QueuedJobStore", () => {
+  const queuedJob = (id: string, scheduledFor: string, status = "QUEUED") =>
+    ({ id, status, scheduledFor, createdAt: scheduledFor, payload: {} } as Job);
+
+  const dueTime = (job: Job) =>
+    job.status === "QUEUED" ? new Date(job.scheduledFor).getTime() : undefined;
+
+  it("should queue the jobs already in the store", () => {
+    const store = new MemoryJobStore();
+    store.set("a", queuedJob("a", "2030-01-01T10:00:00.000Z"));
+    store.set("b", queuedJob("b", "2030-01-01T09:00:00.000Z", "COMPLETED"));
+    const queue = new DueQueue();
+
+    new QueuedJobStore(store, queue, dueTime, jest.fn());
+
+    expect(queue.size()).toBe(1);
+    expect(queue.peek()).toBe(Date.parse("2030-01-01T10:00:00.000Z"));
+  });
+
+  it("should keep the queue in step with every write", () => {
+    const store = new MemoryJobStore();
+    const queue = new DueQueue();
+    const jobs = new QueuedJobStore(store, queue, dueTime, jest.fn());
+
+    jobs.set("a", queuedJob("a", "2030-01-01T10:00:00.000Z"));
+    jobs.set("b", queuedJob("b", "2030-01-01T11:00:00.000Z"));
+    expect(store.values()).toHaveLength(2);
+    expect(queue.size()).toBe(2);
+
+    jobs.set("a", queuedJob("a", "2030-01-01T10:00:00.000Z", "DISPATCHED"));
+    expect(queue.has("a")).toBe(false);
+
+    expect(jobs.delete("b")).toBe(true);
+    expect(queue.size()).toBe(0);
+    expect(jobs.values()).toEqual([store.get("a")]);
+  });
+
+  it("should report changes of the next due time only", () => {
+    const onNextDueChange = jest.fn();
+    const jobs = new QueuedJobStore(new MemoryJobStore(), new DueQueue(), dueTime, onNextDueChange);
+
+    jobs.set("a", queuedJob("a", "2030-01-01T10:00:00.000Z"));
+    expect(onNextDueChange).toHaveBeenCalledTimes(1);
+
+    jobs.set("b", queuedJob("b", "2030-01-01T11:00:00.000Z"));
+    jobs.delete("b");
+    expect(onNextDueChange).toHaveBeenCalledTimes(1);
+
+    jobs.set("c", queuedJob("c", "2030-01-01T09:00:00.000Z"));
+    jobs.set("c", queuedJob("c", "2030-01-01T09:00:00.000Z", "CANCELLED"));
+    expect(onNextDueChange).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,133 @@
+import http from "http";
+import { parseStatusCodes, Receiver } from "../receiver";
+import { signWebhook } from "../signing";
+
+// Jest's environment has no fetch, requests go through the http module
+const request = (
+  url: string,
+  options: { method?: string; headers?: Record<string, string>; body?: string } = {}
+): Promise<{ status: number; body: any }> => {
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      url,
+      { method: options.method ?? "GET", headers: options.headers },
+      (res) => {
+        let text = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk) => (text += chunk));
+        res.on("end", () => resolve({ status: res.statusCode!, body: JSON.parse(text) }));
+      }
+    );
+    req.on("error", reject);
+    req.end(options.body);
+  });
+};
+
+describe("Receiver", () => {
+  let receiver: Receiver;
+  let url: string;
+
+  const start = async (config: { statuses?: number[]; delay?: number } = {}) => {
+    receiver = new Receiver({ port: 0, secret: "abc123", logLevel: "error", ...config });
+    url = `http://localhost:${await receiver.listen()}`;
+  };
+
+  const deliver = (body: unknown, headers: Record<string, string> = {}) =>
+    request(`${url}/webhook`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: "Bearer abc123",
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    });
+
+  const webhook = { jobId: "job-1", attemptId: "attempt-1", attemptNumber: 1, payload: { a: 1 } };
+
+  afterEach(async () => {
+    await receiver.stop();
+  });
+
+  it("should record and acknowledge authorized deliveries", async () => {
+    await start();
+
+    const response = await deliver(webhook);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ received: true, jobId: "job-1" });
+    expect(receiver.getDeliveries()).toEqual([
+      expect.objectContaining({
+        path: "/webhook",
+        authorized: true,
+        signature: "missing",
+        statusCode: 200,
+        jobId: "job-1",
+        attemptNumber: 1,
+        payload: { a: 1 },
+      }),
+    ]);
+
+    const listed = await request(`${url}/_receiver/deliveries`);
+    expect(listed.body.deliveries).toHaveLength(1);
+  });
+
+  it("should reject deliveries without the secret", async () => {
+    await start();
+
+    expect((await deliver(webhook, { Authorization: "Bearer wrong" })).status).toBe(401);
+    expect((await deliver(webhook, { Authorization: "" })).status).toBe(401);
+    expect(receiver.getDeliveries().map((delivery) => delivery.authorized)).toEqual([
+      false,
+      false,
+    ]);
+  });
+
+  it("should check signatures when the server sends them", async () => {
+    await start();
+    const body = JSON.stringify(webhook);
+
+    const valid = await deliver(webhook, signWebhook("abc123", body));
+    const invalid = await deliver(webhook, signWebhook("other-secret", body));
+
+    expect(valid.status).toBe(200);
+    expect(invalid.status).toBe(401);
+    expect(receiver.getDeliveries().map((delivery) => delivery.signature)).toEqual([
+      "valid",
+      "invalid",
+    ]);
+  });
+
+  it("should answer with the configured status codes in order", async () => {
+    await start({ statuses: [500, 503, 200] });
+
+    const statuses = [];
+    for (let i = 0; i < 4; i++) {
+      statuses.push((await deliver(webhook)).status);
+    }
+
+    expect(statuses).toEqual([500, 503, 200, 200]);
+  });
+
+  it("should delay the answer", async () => {
+    await start({ delay: 50 });
+
+    const startedAt = Date.now();
+    await deliver(webhook);
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+  });
+
+  describe("parseStatusCodes", () => {
+    it("should parse one or more status codes", () => {
+      expect(parseStatusCodes("200")).toEqual([200]);
+      expect(parseStatusCodes("500, 500,200")).toEqual([500, 500, 200]);
+    });
+
+    it("should reject invalid status codes", () => {
+      expect(() => parseStatusCodes("ok")).toThrow("Invalid status code 'ok'");
+      expect(() => parseStatusCodes("200,99")).toThrow("Invalid status code '99'");
+      expect(() => parseStatusCodes("200.5")).toThrow();
+    });
+  });
+});
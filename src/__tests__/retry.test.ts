@@ -0,0 +1,69 @@
+import {
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  parseRetryPolicy,
+  resolveRetryPolicy,
+} from "../retry";
+
+describe("Retry Policy", () => {
+  describe("parseRetryPolicy", () => {
+    it("should keep only known numeric fields", () => {
+      expect(
+        parseRetryPolicy({ maxAttempts: 3, initialDelay: "5", foo: 1, jitter: -1 })
+      ).toEqual({ maxAttempts: 3 });
+    });
+
+    it("should return an empty policy for non-objects", () => {
+      expect(parseRetryPolicy(undefined)).toEqual({});
+      expect(parseRetryPolicy("3")).toEqual({});
+    });
+  });
+
+  describe("resolveRetryPolicy", () => {
+    it("should default to a single attempt", () => {
+      expect(resolveRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+      expect(resolveRetryPolicy().maxAttempts).toBe(1);
+    });
+
+    it("should apply overrides in order", () => {
+      const policy = resolveRetryPolicy(
+        { maxAttempts: 3, initialDelay: 1 },
+        { maxAttempts: 5 }
+      );
+
+      expect(policy.maxAttempts).toBe(5);
+      expect(policy.initialDelay).toBe(1);
+    });
+
+    it("should never allow less than one attempt", () => {
+      expect(resolveRetryPolicy({ maxAttempts: 0 }).maxAttempts).toBe(1);
+    });
+  });
+
+  describe("getRetryDelay", () => {
+    const policy = resolveRetryPolicy({
+      initialDelay: 1,
+      multiplier: 2,
+      maxDelay: 10,
+      jitter: 0,
+    });
+
+    it("should grow exponentially", () => {
+      expect(getRetryDelay(1, policy)).toBe(1000);
+      expect(getRetryDelay(2, policy)).toBe(2000);
+      expect(getRetryDelay(3, policy)).toBe(4000);
+    });
+
+    it("should cap the delay at maxDelay", () => {
+      expect(getRetryDelay(10, policy)).toBe(10000);
+    });
+
+    it("should apply jitter in both directions", () => {
+      const jittered = { ...policy, jitter: 0.5 };
+
+      expect(getRetryDelay(1, jittered, () => 0)).toBe(500);
+      expect(getRetryDelay(1, jittered, () => 0.5)).toBe(1000);
+      expect(getRetryDelay(1, jittered, () => 1)).toBe(1500);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { parseForwardOptions, resolveForwardUrl } from "../routing";
+
+describe("Routing", () => {
+  describe("parseForwardOptions", () => {
+    it("should split the default URL from queue routes", () => {
+      expect(
+        parseForwardOptions([
+          "http://localhost:3000/webhook?token=abc",
+          "emails=http://localhost:3001/jobs",
+          "billing.v2=http://localhost:3002/jobs?a=b",
+        ])
+      ).toEqual({
+        forwardUrl: "http://localhost:3000/webhook?token=abc",
+        routes: {
+          emails: "http://localhost:3001/jobs",
+          "billing.v2": "http://localhost:3002/jobs?a=b",
+        },
+      });
+    });
+
+    it("should allow routes without a default URL", () => {
+      expect(parseForwardOptions(["emails=http://localhost:3001/jobs"])).toEqual({
+        forwardUrl: undefined,
+        routes: { emails: "http://localhost:3001/jobs" },
+      });
+    });
+
+    it("should reject more than one default URL", () => {
+      expect(() =>
+        parseForwardOptions(["http://localhost:3000/a", "http://localhost:3000/b"])
+      ).toThrow("Only one default forward URL is allowed");
+    });
+  });
+
+  describe("resolveForwardUrl", () => {
+    const routes = { emails: "http://emails", billing: "http://billing" };
+
+    it("should prefer the queue over the topic", () => {
+      expect(resolveForwardUrl({ queue: "emails", topic: "billing" }, routes)).toBe(
+        "http://emails"
+      );
+      expect(resolveForwardUrl({ queue: "other", topic: "billing" }, routes)).toBe(
+        "http://billing"
+      );
+    });
+
+    it("should fall back to the default URL", () => {
+      expect(resolveForwardUrl({ queue: "other" }, routes, "http://default")).toBe(
+        "http://default"
+      );
+      expect(resolveForwardUrl({}, routes)).toBeUndefined();
+    });
+
+    it("should ignore inherited object keys", () => {
+      expect(resolveForwardUrl({ queue: "toString" }, routes)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { nextScheduleRun } from "../schedule";
+
+describe("Schedule", () => {
+  describe("nextScheduleRun", () => {
+    const now = new Date("2030-01-01T10:00:00Z");
+
+    it("should add the interval to the previous run", () => {
+      expect(nextScheduleRun({ every: "15m" }, now, now)).toEqual(
+        new Date("2030-01-01T10:15:00Z")
+      );
+    });
+
+    it("should skip runs missed before now", () => {
+      const previous = new Date("2030-01-01T08:50:00Z");
+
+      expect(nextScheduleRun({ every: "15m" }, previous, now)).toEqual(
+        new Date("2030-01-01T10:05:00Z")
+      );
+      expect(nextScheduleRun({ cron: "0 * * * *" }, previous, now)).toEqual(
+        new Date("2030-01-01T11:00:00Z")
+      );
+    });
+
+    it("should return undefined for an invalid interval", () => {
+      expect(nextScheduleRun({ every: "soon" }, now, now)).toBeUndefined();
+    });
+  });
+});
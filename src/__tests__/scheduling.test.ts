@@ -1,4 +1,6 @@
+import { Clock } from "../clock";
 import { Server } from "../server";
+import { Job } from "../job";
 
 // Mock fetch
 global.fetch = jest.fn();
@@ -178,9 +180,10 @@ describe("Job Scheduling", () => {
 
         // Start the scheduler without binding to port (mock the listen method)
         const originalListen = server.listen;
-        server.listen = jest.fn(() => {
+        server.listen = jest.fn(async () => {
           // Start internal scheduling without actual port binding
           server["startJobScheduler"]();
+          return 0; // no port is bound
         });
 
         server.listen();
@@ -212,8 +215,9 @@ describe("Job Scheduling", () => {
 
         // Start the scheduler without binding to port
         const originalListen = server.listen;
-        server.listen = jest.fn(() => {
+        server.listen = jest.fn(async () => {
           server["startJobScheduler"]();
+          return 0; // no port is bound
         });
 
         server.listen();
@@ -221,9 +225,8 @@ describe("Job Scheduling", () => {
         // Fast-forward time to before the job should be processed (7s, less than 5s + 5s scheduledDelay = 10s)
         jest.advanceTimersByTime(7000);
 
-        // Run only pending timers to trigger the scheduler
-        jest.runOnlyPendingTimers();
-
+        // The only pending timer is the one for the job's due time
+        expect(jest.getTimerCount()).toBe(1);
         expect(global.fetch).not.toHaveBeenCalled();
 
         // Restore original method
@@ -258,8 +261,9 @@ describe("Job Scheduling", () => {
 
         // Start the scheduler without binding to port
         const originalListen = server.listen;
-        server.listen = jest.fn(() => {
+        server.listen = jest.fn(async () => {
           server["startJobScheduler"]();
+          return 0; // no port is bound
         });
 
         server.listen();
@@ -281,6 +285,124 @@ describe("Job Scheduling", () => {
     }, 10000);
   });
 
+  describe("Timer-based Scheduling", () => {
+    const mockSuccess = () =>
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: () => Promise.resolve("success"),
+      });
+
+    it("should dispatch a job at its due time, to the millisecond", async () => {
+      jest.useFakeTimers();
+      mockSuccess();
+
+      // Due at 5s scheduledFor + 5s scheduledDelay = 10s
+      await createJob(server, { scheduledFor: new Date(Date.now() + 5000).toISOString() });
+      server["startJobScheduler"]();
+
+      jest.advanceTimersByTime(9999);
+      expect(global.fetch).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should re-arm the timer when a job is rescheduled", async () => {
+      jest.useFakeTimers();
+      mockSuccess();
+
+      const job = await createJob(server, { scheduledFor: new Date(Date.now() + 60000).toISOString() });
+      server["startJobScheduler"]();
+
+      // Due at 3s + 5s scheduledDelay = 8s instead of 65s
+      await updateJob(server, job.id, { scheduledFor: new Date(Date.now() + 3000).toISOString() });
+
+      jest.advanceTimersByTime(7999);
+      expect(global.fetch).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not wake up while nothing is due", () => {
+      jest.useFakeTimers();
+
+      server["startJobScheduler"]();
+
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it("should re-arm the timer when the clock is moved from outside", async () => {
+      jest.useFakeTimers();
+      mockSuccess();
+      const clock = new Clock();
+      const clockServer = new Server({ ...getMockConfig(), clock });
+
+      try {
+        await createJob(clockServer, { scheduledFor: new Date(Date.now() + 3600000).toISOString() });
+        clockServer["startJobScheduler"]();
+
+        clock.advance(3600000);
+        jest.advanceTimersByTime(4999);
+        expect(global.fetch).not.toHaveBeenCalled();
+
+        jest.advanceTimersByTime(1);
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+      } finally {
+        clockServer.stop();
+      }
+    });
+
+    it("should drop jobs that leave QUEUED from the queue", async () => {
+      jest.useFakeTimers();
+      mockSuccess();
+
+      const job = await createJob(server, { scheduledFor: new Date(Date.now() + 5000).toISOString() });
+      server["startJobScheduler"]();
+      expect(server["dueJobs"].size()).toBe(1);
+
+      server["jobCache"].set(job.id, { ...job, status: "CANCELLED" });
+      expect(server["dueJobs"].size()).toBe(0);
+
+      jest.advanceTimersByTime(20000);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should only touch the due jobs of a large queue", async () => {
+      mockSuccess();
+      const quietServer = new Server({ ...getMockConfig(), logLevel: "error" });
+      const now = Date.now();
+
+      try {
+        for (let i = 0; i < 10000; i++) {
+          // Every 100th job is due, the others are spread over the next day
+          const scheduledFor = i % 100 === 0 ? now - 10000 : now + 60000 + i * 8000;
+          quietServer["jobCache"].set(`job-${i}`, {
+            id: `job-${i}`,
+            status: "QUEUED",
+            scheduledFor: new Date(scheduledFor).toISOString(),
+            createdAt: new Date(now).toISOString(),
+            payload: {},
+            attemptCount: 0,
+            attempts: [],
+          });
+        }
+
+        const startedAt = Date.now();
+        const processed = quietServer["processScheduledJobs"]();
+        const elapsed = Date.now() - startedAt;
+        await processed;
+
+        expect(global.fetch).toHaveBeenCalledTimes(100);
+        expect(quietServer["dueJobs"].size()).toBe(9900);
+        expect(elapsed).toBeLessThan(1000);
+      } finally {
+        quietServer.stop();
+      }
+    });
+  });
+
   describe("Buffer Time Calculation", () => {
     it("should use correct 2-second buffer for immediate dispatch, regardless of scheduledDelay", async () => {
       const serverWithCustomDelay = new Server({
@@ -342,8 +464,9 @@ describe("Job Scheduling", () => {
 
         // Start the scheduler without binding to port
         const originalListen = serverWithCustomDelay.listen;
-        serverWithCustomDelay.listen = jest.fn(() => {
+        serverWithCustomDelay.listen = jest.fn(async () => {
           serverWithCustomDelay["startJobScheduler"]();
+          return 0; // no port is bound
         });
 
         serverWithCustomDelay.listen();
@@ -404,11 +527,11 @@ async function createJob(server: Server, jobData: any = {}): Promise<any> {
             createdAt: now.toISOString(),
           };
 
-          server["jobCache"].set(job.id, job);
+          server["jobCache"].set(job.id, job as Job);
 
           if (isImmediate) {
             // Dispatch immediately
-            await server["dispatchJob"](job);
+            await server["dispatchJob"](job as Job);
           } else {
             console.log(
               `Job ${job.id} scheduled for ${job.scheduledFor} (will dispatch when time comes)`
@@ -476,12 +599,12 @@ async function updateJob(server: Server, jobId: string, updateData: any): Promis
         scheduledFor: newScheduledTime.toISOString(),
       };
 
-      server["jobCache"].set(jobId, updatedJob);
+      server["jobCache"].set(jobId, updatedJob as Job);
 
       // If updated to immediate time (considering 2-second buffer) and hasn't been dispatched yet, dispatch now
       const bufferTime = new Date(now.getTime() + 2000);
       if (newScheduledTime <= bufferTime) {
-        server["dispatchJob"](updatedJob).catch((err: any) => {
+        server["dispatchJob"](updatedJob as Job).catch((err: any) => {
           console.error("Error dispatching updated job:", err);
         });
       }
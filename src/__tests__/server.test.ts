@@ -1,4 +1,8 @@
+import { Chaos } from "../chaos";
 import { Server } from "../server";
+import { Job } from "../job";
+import { MemoryJobStore } from "../store";
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifyWebhookSignature } from "../signing";
 import express, { Express, Request, Response } from "express";
 
 // Create mock types
@@ -176,7 +180,7 @@ describe("Server", () => {
         json: jest.fn(),
       } as unknown as Response;
 
-      server["jobCache"].set("123", mockJob);
+      server["jobCache"].set("123", mockJob as Job);
 
       jobHandler(mockReq, mockRes);
 
@@ -215,7 +219,7 @@ describe("Server", () => {
         json: jest.fn(),
       } as unknown as Response;
 
-      server["jobCache"].set("456", { ...mockJob });
+      server["jobCache"].set("456", { ...mockJob } as Job);
 
       cancelHandler(mockReq, mockRes);
 
@@ -240,7 +244,7 @@ describe("Server", () => {
         json: jest.fn(),
       } as unknown as Response;
 
-      server["jobCache"].set("456", { ...mockJob });
+      server["jobCache"].set("456", { ...mockJob } as Job);
 
       cancelHandler(mockReq, mockRes);
 
@@ -264,7 +268,7 @@ describe("Server", () => {
         json: jest.fn(),
       } as unknown as Response;
 
-      server["jobCache"].set("789", { ...mockJob });
+      server["jobCache"].set("789", { ...mockJob } as Job);
 
       updateHandler(mockReq, mockRes);
 
@@ -315,7 +319,7 @@ describe("Server", () => {
         json: jest.fn(),
       } as unknown as Response;
 
-      server["jobCache"].set("completed", { ...mockJob });
+      server["jobCache"].set("completed", { ...mockJob } as Job);
 
       updateHandler(mockReq, mockRes);
 
@@ -339,13 +343,15 @@ describe("Server", () => {
         json: jest.fn(),
       } as unknown as Response;
 
-      server["jobCache"].set("test", { ...mockJob });
+      server["jobCache"].set("test", { ...mockJob } as Job);
 
       updateHandler(mockReq, mockRes);
 
       expect(mockRes.status).toHaveBeenCalledWith(400);
       expect(mockRes.json).toHaveBeenCalledWith({
-        error: "scheduledFor is required",
+        error: "Invalid request",
+        message: "'scheduledFor' is required",
+        code: "MISSING_FIELD",
       });
     });
 
@@ -446,7 +452,7 @@ describe("Server", () => {
         json: jest.fn(),
       } as unknown as Response;
 
-      server["jobCache"].set("future-job", { ...mockJob });
+      server["jobCache"].set("future-job", { ...mockJob } as Job);
 
       // Mock successful fetch response
       (global.fetch as jest.Mock).mockResolvedValueOnce({
@@ -468,6 +474,1673 @@ describe("Server", () => {
     });
   });
 
+  describe("retry endpoint", () => {
+    const retryJob = (id: string) => {
+      const retryHandler = mockExpressApp.post.mock.calls.find(
+        (call) => call[0] === "/api/jobs/:id/retry"
+      )![1];
+
+      const mockReq = { params: { id } } as unknown as Request;
+
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      } as unknown as Response;
+
+      retryHandler(mockReq, mockRes);
+
+      return mockRes;
+    };
+
+    it("should re-dispatch a failed job", () => {
+      server["jobCache"].set("failed", {
+        id: "failed",
+        status: "FAILED",
+        payload: { data: "test" },
+        attemptCount: 1,
+      } as Job);
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: () => Promise.resolve("success"),
+      });
+
+      const mockRes = retryJob("failed");
+
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "failed", status: "QUEUED" })
+      );
+      expect(global.fetch).toHaveBeenCalledWith(
+        mockConfig.forwardUrl,
+        expect.objectContaining({
+          body: expect.stringContaining('"attemptNumber":2'),
+        })
+      );
+    });
+
+    it("should not retry a queued job", () => {
+      server["jobCache"].set("queued", { id: "queued", status: "QUEUED" } as Job);
+
+      const mockRes = retryJob("queued");
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        error: "Job can only be retried when status is FAILED or COMPLETED",
+        message: "Job 'queued' is QUEUED",
+        code: "INVALID_JOB_STATUS",
+      });
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should give a retried job a fresh retry budget", async () => {
+      server["jobCache"].set("exhausted", {
+        id: "exhausted",
+        status: "FAILED",
+        scheduledFor: "2024-01-01T00:00:00Z",
+        createdAt: "2024-01-01T00:00:00Z",
+        payload: { data: "test" },
+        attemptCount: 3,
+        attempts: [],
+        retry: { maxAttempts: 3, initialDelay: 1, jitter: 0 },
+      } as Job);
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        text: () => Promise.resolve("error"),
+      });
+
+      retryJob("exhausted");
+      await Promise.all(server["deliveries"]);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        mockConfig.forwardUrl,
+        expect.objectContaining({
+          body: expect.stringContaining('"attemptNumber":4'),
+        })
+      );
+      expect(server["jobCache"].get("exhausted")).toEqual(
+        expect.objectContaining({
+          status: "QUEUED",
+          attemptCount: 4,
+          baseAttemptCount: 3,
+          nextAttemptAt: expect.any(String),
+        })
+      );
+    });
+
+    it("should return 404 for non-existent job", () => {
+      const mockRes = retryJob("non-existent");
+
+      expect(mockRes.status).toHaveBeenCalledWith(404);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ code: "JOB_NOT_FOUND" })
+      );
+    });
+  });
+
+  describe("request validation", () => {
+    const callHandler = async (
+      method: "post" | "patch",
+      path: string,
+      body: unknown,
+      params: Record<string, string> = {}
+    ) => {
+      const handler = mockExpressApp[method].mock.calls.find(
+        (call) => call[0] === path
+      )![1];
+
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      } as unknown as Response;
+
+      await handler({ body, params } as unknown as Request, mockRes);
+
+      return mockRes;
+    };
+
+    it("should reject dispatch requests without a payload", async () => {
+      const mockRes = await callHandler("post", "/api/jobs/dispatch", {});
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        error: "Invalid request",
+        message: "'payload' is required",
+        code: "MISSING_FIELD",
+      });
+      expect(server["jobCache"].values()).toEqual([]);
+    });
+
+    it("should reject an invalid scheduledFor with a 422", async () => {
+      const mockRes = await callHandler("post", "/api/jobs/dispatch", {
+        payload: {},
+        scheduledFor: "tomorrow",
+      });
+
+      expect(mockRes.status).toHaveBeenCalledWith(422);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        error: "Validation failed",
+        message: "'scheduledFor' must be an ISO 8601 date, like '2030-01-01T09:30:00Z'",
+        code: "INVALID_DATE",
+      });
+    });
+
+    it("should reject unknown fields", async () => {
+      const mockRes = await callHandler("post", "/api/jobs/dispatch", {
+        payload: {},
+        schedule: "2030-01-01T00:00:00Z",
+      });
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ code: "UNKNOWN_FIELD" })
+      );
+    });
+
+    it("should validate the scheduledFor of updates", async () => {
+      server["jobCache"].set("queued", { id: "queued", status: "QUEUED" } as Job);
+
+      const mockRes = await callHandler(
+        "patch",
+        "/api/jobs/:id",
+        { scheduledFor: "not a date" },
+        { id: "queued" }
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(422);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ code: "INVALID_DATE" })
+      );
+      expect(server["jobCache"].get("queued")!.scheduledFor).toBeUndefined();
+    });
+
+    it("should answer malformed JSON bodies with an INVALID_JSON error", () => {
+      const errorHandler = (mockExpressApp.use as jest.Mock).mock.calls.find(
+        (call) => typeof call[0] === "function" && call[0].length === 4
+      )![0];
+
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      } as unknown as Response;
+      const next = jest.fn();
+
+      errorHandler({ type: "entity.parse.failed" }, {} as Request, mockRes, next);
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        error: "Invalid request",
+        message: "Request body must be valid JSON",
+        code: "INVALID_JSON",
+      });
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("idempotency keys", () => {
+    const dispatch = async (
+      idempotentServer: Server,
+      body: unknown,
+      headers: Record<string, string> = {}
+    ) => {
+      const webhookHandler = mockExpressApp.post.mock.calls
+        .filter((call) => call[0] === "/api/jobs/dispatch")
+        .pop()![1];
+
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+        set: jest.fn(),
+      } as unknown as Response;
+
+      await webhookHandler({ body, headers } as unknown as Request, mockRes);
+
+      return mockRes;
+    };
+
+    const body = {
+      scheduledFor: new Date(Date.now() + 60000).toISOString(),
+      payload: { orderId: 42 },
+    };
+
+    it("should return the original job for a repeated request", async () => {
+      const first = await dispatch(server, body, { "idempotency-key": "order-42" });
+      const second = await dispatch(server, body, { "idempotency-key": "order-42" });
+      const job = (first.json as jest.Mock).mock.calls[0][0];
+
+      expect(second.status).toHaveBeenCalledWith(200);
+      expect(second.set).toHaveBeenCalledWith("Idempotent-Replayed", "true");
+      expect(second.json).toHaveBeenCalledWith(job);
+      expect(server["jobCache"].values()).toHaveLength(1);
+    });
+
+    it("should accept the key as a body field", async () => {
+      await dispatch(server, { ...body, idempotencyKey: "order-42" });
+      const second = await dispatch(server, body, { "idempotency-key": "order-42" });
+
+      expect(second.status).toHaveBeenCalledWith(200);
+      expect(server["jobCache"].values()).toHaveLength(1);
+    });
+
+    it("should reject a reused key with a different body", async () => {
+      await dispatch(server, body, { "idempotency-key": "order-42" });
+      const second = await dispatch(
+        server,
+        { ...body, payload: { orderId: 43 } },
+        { "idempotency-key": "order-42" }
+      );
+
+      expect(second.status).toHaveBeenCalledWith(409);
+      expect(second.json).toHaveBeenCalledWith({
+        error: "Conflict",
+        message: "Idempotency key 'order-42' was already used with a different request body",
+        code: "IDEMPOTENCY_KEY_REUSED",
+      });
+      expect(server["jobCache"].values()).toHaveLength(1);
+    });
+
+    it("should create a new job once the window has passed", async () => {
+      const idempotentServer = new Server({ ...mockConfig, idempotencyWindow: 60 });
+
+      try {
+        await dispatch(idempotentServer, body, { "idempotency-key": "order-42" });
+        idempotentServer["clock"].advance(60000);
+        const second = await dispatch(idempotentServer, body, {
+          "idempotency-key": "order-42",
+        });
+
+        expect(second.status).toHaveBeenCalledWith(201);
+        expect(idempotentServer["jobCache"].values()).toHaveLength(2);
+      } finally {
+        idempotentServer.stop();
+      }
+    });
+  });
+
+  describe("batch dispatch", () => {
+    const dispatchBatch = (body: unknown) => {
+      const batchHandler = mockExpressApp.post.mock.calls.find(
+        (call) => call[0] === "/api/jobs/dispatch/batch"
+      )![1];
+
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      } as unknown as Response;
+
+      batchHandler({ body } as Request, mockRes);
+
+      return mockRes;
+    };
+
+    it("should create valid jobs and report invalid ones per item", () => {
+      const futureTime = new Date(Date.now() + 60000).toISOString();
+
+      const mockRes = dispatchBatch({
+        jobs: [
+          { payload: { n: 1 }, scheduledFor: futureTime },
+          { payload: { n: 2 }, scheduledFor: "tomorrow" },
+          { payload: { n: 3 }, scheduledFor: futureTime, queue: "emails" },
+        ],
+      });
+
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        results: [
+          {
+            index: 0,
+            status: 201,
+            job: expect.objectContaining({ status: "QUEUED", payload: { n: 1 } }),
+          },
+          {
+            index: 1,
+            status: 422,
+            error: expect.objectContaining({ code: "INVALID_DATE" }),
+          },
+          {
+            index: 2,
+            status: 201,
+            job: expect.objectContaining({ queue: "emails", payload: { n: 3 } }),
+          },
+        ],
+        created: 2,
+        failed: 1,
+      });
+      expect(server["jobCache"].values()).toHaveLength(2);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should dispatch due jobs immediately", () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: () => Promise.resolve("success"),
+      });
+
+      dispatchBatch({ jobs: [{ payload: { n: 1 } }, { payload: { n: 2 } }] });
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reject batches that are not a list of jobs", () => {
+      expect(dispatchBatch([{ payload: {} }]).status).toHaveBeenCalledWith(400);
+      expect(dispatchBatch({ jobs: [] }).json).toHaveBeenCalledWith(
+        expect.objectContaining({ code: "INVALID_BATCH_SIZE" })
+      );
+    });
+  });
+
+  describe("recurring jobs", () => {
+    const callHandler = (method: "get" | "post" | "delete", path: string, params = {}) => {
+      const handler = mockExpressApp[method].mock.calls.find((call) => call[0] === path)![1];
+
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      } as unknown as Response;
+
+      handler({ params, body: {} } as unknown as Request, mockRes);
+
+      return (mockRes.json as jest.Mock).mock.calls[0]?.[0];
+    };
+
+    const createSchedule = async (body: Record<string, unknown>) => {
+      const webhookHandler = mockExpressApp.post.mock.calls[0][1];
+
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      } as unknown as Response;
+
+      await webhookHandler({ body: { payload: { task: "report" }, ...body } } as Request, mockRes);
+
+      expect(mockRes.status).toHaveBeenCalledWith(201);
+      return (mockRes.json as jest.Mock).mock.calls[0][0];
+    };
+
+    const runsOf = (scheduleId: string) =>
+      server["jobCache"].values().filter((job) => job.scheduleId === scheduleId);
+
+    it("should queue the first run of an interval schedule", async () => {
+      const schedule = await createSchedule({ every: "1h", queue: "reports" });
+
+      expect(schedule).toEqual(
+        expect.objectContaining({
+          status: "ACTIVE",
+          every: "1h",
+          queue: "reports",
+          runCount: 1,
+          nextRunAt: new Date(
+            new Date(schedule.createdAt).getTime() + 60 * 60 * 1000
+          ).toISOString(),
+        })
+      );
+      expect(runsOf(schedule.id)).toEqual([
+        expect.objectContaining({
+          id: schedule.nextJobId,
+          status: "QUEUED",
+          scheduledFor: schedule.nextRunAt,
+          payload: { task: "report" },
+          queue: "reports",
+        }),
+      ]);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should queue the next run when a run is due and dispatch it after scheduledDelay", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: () => Promise.resolve("success"),
+      });
+      const schedule = await createSchedule({ cron: "0 * * * *" });
+      const firstRun = server["jobCache"].get(schedule.nextJobId)!;
+
+      server["clock"].set(new Date(schedule.nextRunAt));
+      await server["processScheduledJobs"]();
+
+      // The next run is queued, the due one waits for the 1 second scheduledDelay
+      const runs = runsOf(schedule.id);
+      expect(runs).toHaveLength(2);
+      expect(server["jobCache"].get(firstRun.id)!.status).toBe("QUEUED");
+      expect(callHandler("get", "/api/schedules/:id", { id: schedule.id })).toEqual(
+        expect.objectContaining({
+          runCount: 2,
+          nextRunAt: new Date(
+            new Date(schedule.nextRunAt).getTime() + 60 * 60 * 1000
+          ).toISOString(),
+        })
+      );
+
+      server["clock"].advance(1000);
+      await server["processScheduledJobs"]();
+
+      expect(server["jobCache"].get(firstRun.id)!.status).toBe("COMPLETED");
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should list, pause, resume and delete schedules", async () => {
+      const schedule = await createSchedule({ every: "5m" });
+
+      expect(callHandler("get", "/api/schedules")).toEqual({ schedules: [schedule] });
+
+      const paused = callHandler("post", "/api/schedules/:id/pause", { id: schedule.id });
+      expect(paused.status).toBe("PAUSED");
+      expect(paused.nextRunAt).toBeUndefined();
+      expect(server["jobCache"].get(schedule.nextJobId)!.status).toBe("CANCELLED");
+
+      const resumed = callHandler("post", "/api/schedules/:id/resume", { id: schedule.id });
+      expect(resumed).toEqual(
+        expect.objectContaining({ status: "ACTIVE", runCount: 2, nextRunAt: expect.any(String) })
+      );
+
+      callHandler("delete", "/api/schedules/:id", { id: schedule.id });
+      expect(callHandler("get", "/api/schedules")).toEqual({ schedules: [] });
+      expect(server["jobCache"].get(resumed.nextJobId)!.status).toBe("CANCELLED");
+      expect(callHandler("get", "/api/schedules/:id", { id: schedule.id })).toEqual(
+        expect.objectContaining({ code: "SCHEDULE_NOT_FOUND" })
+      );
+    });
+
+    it("should cancel every queued run when paused", async () => {
+      const schedule = await createSchedule({ every: "1s" });
+
+      // The due run waits for scheduledDelay while the next one is queued
+      server["clock"].set(new Date(schedule.nextRunAt));
+      await server["processScheduledJobs"]();
+      expect(runsOf(schedule.id).filter((job) => job.status === "QUEUED")).toHaveLength(2);
+
+      callHandler("post", "/api/schedules/:id/pause", { id: schedule.id });
+      server["clock"].advance(5000);
+      await server["processScheduledJobs"]();
+
+      expect(runsOf(schedule.id).map((job) => job.status)).toEqual(["CANCELLED", "CANCELLED"]);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should not queue runs of paused schedules", async () => {
+      const schedule = await createSchedule({ every: "5m" });
+      callHandler("post", "/api/schedules/:id/pause", { id: schedule.id });
+
+      server["clock"].advance(60 * 60 * 1000);
+      await server["processScheduledJobs"]();
+
+      expect(runsOf(schedule.id)).toEqual([expect.objectContaining({ status: "CANCELLED" })]);
+    });
+  });
+
+  describe("dispatch limits", () => {
+    const dispatchNow = async (limitedServer: Server, data: string) => {
+      const webhookHandler = mockExpressApp.post.mock.calls
+        .filter((call) => call[0] === "/api/jobs/dispatch")
+        .pop()![1];
+
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      } as unknown as Response;
+
+      await webhookHandler({ body: { payload: { data } } } as Request, mockRes);
+
+      return (mockRes.json as jest.Mock).mock.calls[0][0].id;
+    };
+
+    it("should keep jobs QUEUED until a delivery slot frees up", async () => {
+      const limitedServer = new Server({ ...mockConfig, concurrency: 1 });
+      const responses: ((value: unknown) => void)[] = [];
+      (global.fetch as jest.Mock).mockImplementation(
+        () => new Promise((resolve) => responses.push(resolve))
+      );
+
+      try {
+        const first = await dispatchNow(limitedServer, "first");
+        const second = await dispatchNow(limitedServer, "second");
+
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+        expect(limitedServer["jobCache"].get(first)!.status).toBe("DISPATCHED");
+        expect(limitedServer["jobCache"].get(second)!.status).toBe("QUEUED");
+
+        responses[0]({ ok: true, status: 200, text: () => Promise.resolve("ok") });
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        expect(limitedServer["jobCache"].get(first)!.status).toBe("COMPLETED");
+        expect(limitedServer["jobCache"].get(second)!.status).toBe("DISPATCHED");
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+
+        responses[1]({ ok: true, status: 200, text: () => Promise.resolve("ok") });
+      } finally {
+        limitedServer.stop();
+      }
+    });
+
+    it("should start at most rateLimit deliveries per second", async () => {
+      jest.useFakeTimers();
+      const limitedServer = new Server({ ...mockConfig, rateLimit: 2 });
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: () => Promise.resolve("ok"),
+      });
+
+      try {
+        const jobs = [
+          await dispatchNow(limitedServer, "1"),
+          await dispatchNow(limitedServer, "2"),
+          await dispatchNow(limitedServer, "3"),
+        ];
+
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+        expect(limitedServer["jobCache"].get(jobs[2])!.status).toBe("QUEUED");
+
+        jest.advanceTimersByTime(1000);
+
+        expect(global.fetch).toHaveBeenCalledTimes(3);
+      } finally {
+        limitedServer.stop();
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe("list endpoint", () => {
+    const listJobs = (query: Record<string, string>) => {
+      const listHandler = mockExpressApp.get.mock.calls.find(
+        (call) => call[0] === "/api/jobs"
+      )![1];
+
+      const mockReq = { query } as unknown as Request;
+
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      } as unknown as Response;
+
+      listHandler(mockReq, mockRes);
+
+      return mockRes;
+    };
+
+    beforeEach(() => {
+      server["jobCache"].set("a", {
+        id: "a",
+        status: "QUEUED",
+        scheduledFor: "2024-01-02T00:00:00.000Z",
+        createdAt: "2024-01-01T00:00:00.000Z",
+      } as Job);
+      server["jobCache"].set("b", {
+        id: "b",
+        status: "COMPLETED",
+        scheduledFor: "2024-01-03T00:00:00.000Z",
+        createdAt: "2024-01-02T00:00:00.000Z",
+      } as Job);
+      server["jobCache"].set("c", {
+        id: "c",
+        status: "FAILED",
+        scheduledFor: "2024-01-04T00:00:00.000Z",
+        createdAt: "2024-01-03T00:00:00.000Z",
+      } as Job);
+    });
+
+    const ids = (mockRes: Response) =>
+      (mockRes.json as jest.Mock).mock.calls[0][0].jobs.map((job: any) => job.id);
+
+    it("should list all jobs", () => {
+      const mockRes = listJobs({});
+
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ total: 3, limit: 50, offset: 0 })
+      );
+      expect(ids(mockRes)).toEqual(["a", "b", "c"]);
+    });
+
+    it("should filter by status", () => {
+      expect(ids(listJobs({ status: "queued,failed" }))).toEqual(["a", "c"]);
+    });
+
+    it("should filter by created and scheduled time range", () => {
+      expect(ids(listJobs({ createdAfter: "2024-01-02T00:00:00Z" }))).toEqual(["b", "c"]);
+      expect(ids(listJobs({ scheduledBefore: "2024-01-03T00:00:00Z" }))).toEqual(["a", "b"]);
+    });
+
+    it("should paginate", () => {
+      const mockRes = listJobs({ limit: "1", offset: "1" });
+
+      expect(ids(mockRes)).toEqual(["b"]);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ total: 3, limit: 1, offset: 1 })
+      );
+    });
+
+    it("should reject invalid queries", () => {
+      const mockRes = listJobs({ createdAfter: "yesterday" });
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        error: "Invalid query",
+        message: "'createdAfter' must be a valid date",
+        code: "INVALID_QUERY",
+      });
+      expect(listJobs({ limit: "abc" }).status).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe("api key authentication", () => {
+    const authenticate = (authServer: Server, authorization?: string) => {
+      const authMiddleware = mockExpressApp.use.mock.calls
+        .filter((call) => call[0] === "/api/jobs")
+        .pop()![1];
+
+      const mockReq = {
+        headers: authorization ? { authorization } : {},
+      } as unknown as Request;
+
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      } as unknown as Response;
+
+      const next = jest.fn();
+
+      authMiddleware(mockReq, mockRes, next);
+
+      return { mockRes, next };
+    };
+
+    it("should allow every request without a configured api key", () => {
+      const { next } = authenticate(server);
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it("should require and validate the configured api key", () => {
+      const authServer = new Server({ ...mockConfig, apiKey: "sk_local" });
+
+      try {
+        const missing = authenticate(authServer);
+        expect(missing.next).not.toHaveBeenCalled();
+        expect(missing.mockRes.status).toHaveBeenCalledWith(401);
+        expect(missing.mockRes.json).toHaveBeenCalledWith(
+          expect.objectContaining({ error: "Unauthorized", code: "MISSING_API_KEY" })
+        );
+
+        const invalid = authenticate(authServer, "Bearer sk_wrong");
+        expect(invalid.next).not.toHaveBeenCalled();
+        expect(invalid.mockRes.status).toHaveBeenCalledWith(403);
+        expect(invalid.mockRes.json).toHaveBeenCalledWith({
+          error: "Forbidden",
+          message: "Invalid API key",
+          code: "INVALID_API_KEY",
+        });
+
+        const valid = authenticate(authServer, "Bearer sk_local");
+        expect(valid.next).toHaveBeenCalled();
+      } finally {
+        authServer.stop();
+      }
+    });
+  });
+
+  describe("webhook signing", () => {
+    it("should add signature headers over the raw body", async () => {
+      const signingServer = new Server({ ...mockConfig, signing: "hmac-sha256" });
+      const mockJob = { id: "signed", status: "QUEUED", payload: { data: "test" } };
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: () => Promise.resolve("success"),
+      });
+
+      try {
+        signingServer["jobCache"].set("signed", mockJob as Job);
+        await signingServer["dispatchJob"](mockJob as Job);
+
+        const [, request] = (global.fetch as jest.Mock).mock.calls[0];
+        expect(request.headers.Authorization).toBe(`Bearer ${mockConfig.webhookSecret}`);
+        expect(
+          verifyWebhookSignature({
+            secret: mockConfig.webhookSecret,
+            body: request.body,
+            signature: request.headers[SIGNATURE_HEADER],
+            timestamp: request.headers[TIMESTAMP_HEADER],
+          })
+        ).toBe(true);
+      } finally {
+        signingServer.stop();
+      }
+    });
+  });
+
+  describe("routing", () => {
+    const routes = {
+      emails: "http://localhost:3001/emails",
+      billing: "http://localhost:3002/billing",
+    };
+
+    const dispatchTo = async (routingServer: Server, job: any) => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: () => Promise.resolve("success"),
+      });
+
+      const queued = { status: "QUEUED", ...job } as Job;
+      routingServer["jobCache"].set(queued.id, queued);
+      await routingServer["dispatchJob"](queued);
+
+      return (global.fetch as jest.Mock).mock.calls.pop()?.[0];
+    };
+
+    it("should forward jobs by queue or topic and fall back to the default URL", async () => {
+      const routingServer = new Server({ ...mockConfig, routes });
+
+      try {
+        expect(await dispatchTo(routingServer, { id: "1", queue: "emails" })).toBe(routes.emails);
+        expect(await dispatchTo(routingServer, { id: "2", topic: "billing" })).toBe(routes.billing);
+        expect(await dispatchTo(routingServer, { id: "3", queue: "exports" })).toBe(
+          mockConfig.forwardUrl
+        );
+      } finally {
+        routingServer.stop();
+      }
+    });
+
+    it("should fail jobs that match no route without a default URL", async () => {
+      const routingServer = new Server({ ...mockConfig, forwardUrl: undefined, routes });
+
+      try {
+        const job = { id: "4", status: "QUEUED", queue: "exports" } as Job;
+        routingServer["jobCache"].set("4", job);
+        await routingServer["dispatchJob"](job);
+
+        expect(global.fetch).not.toHaveBeenCalled();
+        expect(routingServer["jobCache"].get("4")).toEqual(
+          expect.objectContaining({
+            status: "FAILED",
+            attempts: [
+              expect.objectContaining({
+                url: null,
+                error: "No forward URL configured for queue 'exports'",
+              }),
+            ],
+          })
+        );
+
+        const unrouted = { id: "5", status: "QUEUED" } as Job;
+        routingServer["jobCache"].set("5", unrouted);
+        await routingServer["dispatchJob"](unrouted);
+
+        expect(routingServer["jobCache"].get("5")!.attempts).toEqual([
+          expect.objectContaining({ error: "No default --forward URL configured" }),
+        ]);
+      } finally {
+        routingServer.stop();
+      }
+    });
+
+    it("should keep the queue and topic of dispatched jobs", async () => {
+      const webhookHandler = mockExpressApp.post.mock.calls[0][1];
+
+      const mockReq = {
+        body: {
+          scheduledFor: new Date(Date.now() + 60000).toISOString(),
+          payload: { data: "test" },
+          queue: "emails",
+        },
+      } as Request;
+
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      } as unknown as Response;
+
+      await webhookHandler(mockReq, mockRes);
+
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ queue: "emails" })
+      );
+    });
+  });
+
+  describe("attempt history", () => {
+    it("should record every attempt on the job", async () => {
+      const mockJob = {
+        id: "history",
+        status: "QUEUED",
+        scheduledFor: "2024-01-01T00:00:00Z",
+        payload: { data: "test" },
+        createdAt: "2024-01-01T00:00:00Z",
+      };
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 502,
+        text: () => Promise.resolve("x".repeat(2000)),
+      });
+
+      server["jobCache"].set("history", mockJob as Job);
+      await server["dispatchJob"](mockJob as Job);
+
+      const [attempt] = server["jobCache"].get("history")!.attempts;
+      expect(attempt).toEqual({
+        attemptId: expect.any(String),
+        attemptNumber: 1,
+        startedAt: expect.any(String),
+        url: mockConfig.forwardUrl,
+        duration: expect.any(Number),
+        statusCode: 502,
+        responseBody: "x".repeat(1024) + "...",
+      });
+    });
+
+    it("should record network errors", async () => {
+      const mockJob = { id: "network", status: "QUEUED", payload: {} };
+
+      (global.fetch as jest.Mock).mockRejectedValueOnce(new Error("ECONNREFUSED"));
+
+      server["jobCache"].set("network", mockJob as Job);
+      await server["dispatchJob"](mockJob as Job);
+
+      expect(server["jobCache"].get("network")!.attempts).toEqual([
+        expect.objectContaining({ statusCode: null, error: "ECONNREFUSED" }),
+      ]);
+    });
+
+    it("should return attempts for a job", () => {
+      const attemptsHandler = mockExpressApp.get.mock.calls.find(
+        (call) => call[0] === "/api/jobs/:id/attempts"
+      )![1];
+      const attempts = [{ attemptId: "a1", attemptNumber: 1 }];
+
+      const mockReq = {
+        params: { id: "with-attempts" },
+      } as unknown as Request;
+
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      } as unknown as Response;
+
+      server["jobCache"].set("with-attempts", { id: "with-attempts", attempts } as Job);
+
+      attemptsHandler(mockReq, mockRes);
+
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({ jobId: "with-attempts", attempts });
+    });
+  });
+
+  describe("retries", () => {
+    it("should re-queue failed jobs until attempts are exhausted", async () => {
+      const retryServer = new Server({
+        ...mockConfig,
+        retry: { maxAttempts: 2, initialDelay: 1, jitter: 0 },
+      });
+      const mockJob = {
+        id: "retry",
+        status: "QUEUED",
+        scheduledFor: "2024-01-01T00:00:00Z",
+        payload: { data: "test" },
+        createdAt: "2024-01-01T00:00:00Z",
+      };
+
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 500,
+        text: () => Promise.resolve("error"),
+      });
+
+      try {
+        retryServer["jobCache"].set("retry", mockJob as Job);
+        await retryServer["dispatchJob"](mockJob as Job);
+
+        const requeued = retryServer["jobCache"].get("retry");
+        expect(requeued).toEqual(
+          expect.objectContaining({
+            status: "QUEUED",
+            attemptCount: 1,
+            nextAttemptAt: expect.any(String),
+          })
+        );
+
+        await retryServer["dispatchJob"](requeued!);
+
+        const bodies = (global.fetch as jest.Mock).mock.calls.map((call) =>
+          JSON.parse(call[1].body)
+        );
+        expect(bodies.map((body) => body.attemptNumber)).toEqual([1, 2]);
+        expect(bodies[0].attemptId).not.toBe(bodies[1].attemptId);
+        expect(retryServer["jobCache"].get("retry")).toEqual(
+          expect.objectContaining({ status: "FAILED", attemptCount: 2 })
+        );
+      } finally {
+        retryServer.stop();
+      }
+    });
+
+    it("should honor a per-job retry override from the dispatch body", async () => {
+      const webhookHandler = mockExpressApp.post.mock.calls[0][1];
+
+      const mockReq = {
+        body: {
+          scheduledFor: new Date(Date.now() + 60000).toISOString(),
+          payload: { data: "test" },
+          retry: { maxAttempts: 4, unknown: true },
+        },
+      } as Request;
+
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      } as unknown as Response;
+
+      await webhookHandler(mockReq, mockRes);
+
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ retry: { maxAttempts: 4 } })
+      );
+    });
+  });
+
+  describe("job store", () => {
+    it("should keep jobs in the configured store", async () => {
+      const store = new MemoryJobStore();
+      const storeServer = new Server({ ...mockConfig, store });
+      const webhookHandler = mockExpressApp.post.mock.calls.filter(
+        (call) => call[0] === "/api/jobs/dispatch"
+      )[1][1];
+
+      const mockReq = {
+        body: {
+          scheduledFor: new Date(Date.now() + 60000).toISOString(),
+          payload: { data: "stored" },
+        },
+      } as Request;
+
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      } as unknown as Response;
+
+      try {
+        await webhookHandler(mockReq, mockRes);
+
+        expect(store.values()).toEqual([
+          expect.objectContaining({ status: "QUEUED", payload: { data: "stored" } }),
+        ]);
+      } finally {
+        storeServer.stop();
+      }
+    });
+  });
+
+  describe("clock endpoints", () => {
+    const callClock = async (path: string, body: any = {}) => {
+      const clockHandler = mockExpressApp.post.mock.calls.find(
+        (call) => call[0] === path
+      )![1];
+
+      const mockReq = { body } as Request;
+
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      } as unknown as Response;
+
+      await clockHandler(mockReq, mockRes);
+
+      return mockRes;
+    };
+
+    it("should dispatch jobs that become due when the clock advances", async () => {
+      server["jobCache"].set("in-3-days", {
+        id: "in-3-days",
+        status: "QUEUED",
+        // Leave room for the 1 second scheduledDelay of the test config
+        scheduledFor: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000 - 10000).toISOString(),
+        payload: {},
+      } as Job);
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: () => Promise.resolve("success"),
+      });
+
+      await callClock("/api/_dev/clock/advance", { by: "2d" });
+      expect(global.fetch).not.toHaveBeenCalled();
+
+      const mockRes = await callClock("/api/_dev/clock/advance", { by: "1d" });
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        now: expect.any(String),
+        offset: 3 * 24 * 60 * 60 * 1000,
+      });
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(server["jobCache"].get("in-3-days")!.status).toBe("COMPLETED");
+    });
+
+    it("should log a failing scheduler pass instead of throwing", async () => {
+      const logError = jest.spyOn(server["logger"], "error");
+      server["saveSchedule"]({
+        id: "broken",
+        status: "ACTIVE",
+        cron: "not a cron",
+        payload: {},
+        createdAt: "2030-01-01T00:00:00.000Z",
+        runCount: 1,
+        nextRunAt: new Date(Date.now() - 1000).toISOString(),
+      });
+
+      const mockRes = await callClock("/api/_dev/clock/advance", { by: "1m" });
+
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(logError).toHaveBeenCalledWith(
+        "scheduler.error",
+        "Error processing scheduled jobs",
+        expect.objectContaining({ error: expect.any(Error) })
+      );
+    });
+
+    it("should use the server clock for the immediate dispatch check", async () => {
+      await callClock("/api/_dev/clock/set", { time: "2030-01-01T00:00:00Z" });
+
+      const webhookHandler = mockExpressApp.post.mock.calls[0][1];
+      const mockReq = {
+        body: { scheduledFor: "2029-12-31T23:59:59Z", payload: {} },
+      } as Request;
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      } as unknown as Response;
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: () => Promise.resolve("success"),
+      });
+
+      await webhookHandler(mockReq, mockRes);
+
+      expect(global.fetch).toHaveBeenCalled();
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          createdAt: expect.stringMatching(/^2030-01-01T00:00/),
+        })
+      );
+    });
+
+    it("should reject invalid clock values", async () => {
+      const mockRes = await callClock("/api/_dev/clock/advance", { by: "soon" });
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ code: "INVALID_CLOCK_VALUE" })
+      );
+      expect(
+        (await callClock("/api/_dev/clock/set", { time: "not a date" })).status
+      ).toHaveBeenCalledWith(400);
+    });
+
+    it("should reject advancing past the last valid date", async () => {
+      const mockRes = await callClock("/api/_dev/clock/advance", { by: "99999999999d" });
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ code: "INVALID_CLOCK_VALUE" })
+      );
+      expect(server["clock"].getOffset()).toBe(0);
+    });
+  });
+
+  describe("fixtures", () => {
+    const mockResponse = () =>
+      ({
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      } as unknown as Response);
+
+    const importFixture = async (body: any, query: Record<string, string> = {}) => {
+      const importHandler = mockExpressApp.post.mock.calls.find(
+        (call) => call[0] === "/api/_dev/import"
+      )![1];
+
+      const mockRes = mockResponse();
+      await importHandler({ body, query } as unknown as Request, mockRes);
+
+      return mockRes;
+    };
+
+    const queuedJob = (id: string, scheduledFor: string) =>
+      ({
+        id,
+        status: "QUEUED",
+        scheduledFor,
+        createdAt: "2030-01-01T09:00:00.000Z",
+        payload: { id },
+        attemptCount: 0,
+        attempts: [],
+      } as Job);
+
+    it("should export the jobs and schedules with the server time", () => {
+      server["clock"].set(new Date("2030-01-01T10:00:00Z"));
+      server["jobCache"].set("job-1", queuedJob("job-1", "2030-01-01T11:00:00.000Z"));
+
+      const exportHandler = mockExpressApp.get.mock.calls.find(
+        (call) => call[0] === "/api/_dev/export"
+      )![1];
+      const mockRes = mockResponse();
+      exportHandler({} as Request, mockRes);
+
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        version: 1,
+        exportedAt: expect.stringMatching(/^2030-01-01T10:00/),
+        jobs: [server["jobCache"].get("job-1")],
+        schedules: [],
+      });
+    });
+
+    it("should add the imported jobs and re-queue interrupted deliveries", async () => {
+      server["jobCache"].set("existing", queuedJob("existing", "2030-01-01T11:00:00.000Z"));
+
+      const mockRes = await importFixture({
+        jobs: [
+          { ...queuedJob("job-1", "2030-01-01T11:00:00.000Z"), status: "DISPATCHED" },
+        ],
+      });
+
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({ jobs: 1, schedules: 0, replaced: false });
+      expect(server["jobCache"].get("existing")).toBeDefined();
+      expect(server["jobCache"].get("job-1")!.status).toBe("QUEUED");
+    });
+
+    it("should replace the current jobs and rebase the times when asked to", async () => {
+      // The clock keeps running after set(), so stop the system time for the exact times
+      const now = jest.spyOn(Date, "now").mockReturnValue(Date.parse("2030-01-05T09:00:00.000Z"));
+
+      try {
+        server["clock"].set(new Date("2030-01-05T10:00:00.000Z"));
+        server["jobCache"].set("existing", queuedJob("existing", "2030-01-01T11:00:00.000Z"));
+
+        await importFixture(
+          {
+            exportedAt: "2030-01-01T10:00:00.000Z",
+            jobs: [queuedJob("job-1", "2030-01-01T10:05:00.000Z")],
+          },
+          { replace: "true", rebase: "true" }
+        );
+
+        expect(server["jobCache"].get("existing")).toBeUndefined();
+        expect(server["jobCache"].get("job-1")!.scheduledFor).toBe("2030-01-05T10:05:00.000Z");
+      } finally {
+        now.mockRestore();
+      }
+    });
+
+    it("should queue the first run of active schedules without a next run", async () => {
+      await importFixture({
+        jobs: [],
+        schedules: [
+          {
+            id: "schedule-1",
+            status: "ACTIVE",
+            every: "1s",
+            payload: {},
+            createdAt: "2030-01-01T09:00:00.000Z",
+          },
+        ],
+      });
+
+      const schedule = server["schedules"].get("schedule-1")!;
+      expect(schedule).toEqual(
+        expect.objectContaining({ runCount: 1, nextRunAt: expect.any(String) })
+      );
+      expect(server["jobCache"].get(schedule.nextJobId!)).toEqual(
+        expect.objectContaining({ status: "QUEUED", scheduleId: "schedule-1" })
+      );
+      expect(server["dueScheduleRuns"].has("schedule-1")).toBe(true);
+    });
+
+    it("should wait for in-flight deliveries before replacing the jobs", async () => {
+      let respond: (value: unknown) => void = () => undefined;
+      (global.fetch as jest.Mock).mockImplementationOnce(
+        () => new Promise((resolve) => (respond = resolve))
+      );
+      const inFlight = queuedJob("in-flight", new Date().toISOString());
+      server["jobCache"].set(inFlight.id, inFlight);
+      server["requestDispatch"](inFlight);
+
+      const imported = jest.fn();
+      const importing = importFixture(
+        { jobs: [queuedJob("job-1", "2030-01-01T10:05:00.000Z")] },
+        { replace: "true" }
+      ).then(imported);
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(imported).not.toHaveBeenCalled();
+
+      respond({ ok: true, status: 200, text: () => Promise.resolve("ok") });
+      await importing;
+
+      expect(server["jobCache"].get("in-flight")).toBeUndefined();
+      expect(server["jobCache"].values().map((job) => job.id)).toEqual(["job-1"]);
+    });
+
+    it("should reject invalid fixtures", async () => {
+      const mockRes = await importFixture({ jobs: [{ id: "job-1" }] });
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ error: "Invalid request", code: "INVALID_FIXTURE" })
+      );
+    });
+
+    it("should answer 500 instead of crashing when the import fails", async () => {
+      jest.spyOn(server["jobCache"], "set").mockImplementationOnce(() => {
+        throw new Error("disk full");
+      });
+
+      const mockRes = await importFixture({
+        jobs: [queuedJob("job-1", "2030-01-01T11:00:00.000Z")],
+      });
+
+      expect(mockRes.status).toHaveBeenCalledWith(500);
+      expect(mockRes.json).toHaveBeenCalledWith({ error: "Internal server error" });
+    });
+  });
+
+  describe("event stream", () => {
+    const openStream = (query: Record<string, string> = {}) => {
+      const eventsHandler = mockExpressApp.get.mock.calls.find(
+        (call) => call[0] === "/api/events"
+      )![1];
+
+      const mockReq = { query, on: jest.fn() };
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        set: jest.fn().mockReturnThis(),
+        flushHeaders: jest.fn(),
+        write: jest.fn(),
+        end: jest.fn(),
+      };
+      eventsHandler(mockReq as unknown as Request, mockRes as unknown as Response);
+
+      const events = () =>
+        mockRes.write.mock.calls
+          .map((call) => /^data: (.*)$/m.exec(call[0]))
+          .filter(Boolean)
+          .map((match) => JSON.parse(match![1]));
+
+      return { mockReq, mockRes, events };
+    };
+
+    const dispatch = async (body: any) => {
+      const webhookHandler = mockExpressApp.post.mock.calls[0][1];
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      } as unknown as Response;
+
+      await webhookHandler({ body } as Request, mockRes);
+      await Promise.all(server["deliveries"]);
+    };
+
+    it("should stream the lifecycle of a job", async () => {
+      const { mockRes, events } = openStream();
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: () => Promise.resolve("success"),
+      });
+      await dispatch({ payload: { hello: "world" } });
+
+      expect(mockRes.set).toHaveBeenCalledWith(
+        expect.objectContaining({ "Content-Type": "text/event-stream" })
+      );
+      expect(events().map((event) => [event.type, event.job.status])).toEqual([
+        ["job.created", "QUEUED"],
+        ["attempt.started", "DISPATCHED"],
+        ["attempt.succeeded", "COMPLETED"],
+      ]);
+      expect(events()[2].attempt).toMatchObject({ attemptNumber: 1, statusCode: 200 });
+    });
+
+    it("should only stream the events matching the filters", async () => {
+      const { events } = openStream({ status: "failed" });
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        text: () => Promise.resolve("error"),
+      });
+      await dispatch({ payload: {} });
+
+      expect(events().map((event) => event.type)).toEqual(["attempt.failed"]);
+      expect(events()[0].attempt.statusCode).toBe(500);
+    });
+
+    it("should stream cancellations and updates", () => {
+      const job = {
+        id: "job-1",
+        status: "QUEUED",
+        scheduledFor: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+        payload: {},
+      } as Job;
+      server["jobCache"].set(job.id, job);
+      server["jobCache"].set("job-2", { ...job, id: "job-2" });
+      const { events } = openStream({ jobId: "job-1" });
+
+      const patchHandler = mockExpressApp.patch.mock.calls[0][1];
+      const deleteHandler = mockExpressApp.delete.mock.calls.find(
+        (call) => call[0] === "/api/jobs/:id"
+      )![1];
+      const mockRes = () =>
+        ({ status: jest.fn().mockReturnThis(), json: jest.fn() } as unknown as Response);
+
+      patchHandler(
+        { params: { id: "job-1" }, body: { scheduledFor: "2099-01-01T00:00:00Z" } } as any,
+        mockRes()
+      );
+      deleteHandler({ params: { id: "job-2" } } as any, mockRes());
+      deleteHandler({ params: { id: "job-1" } } as any, mockRes());
+
+      expect(events().map((event) => [event.type, event.job.id])).toEqual([
+        ["job.updated", "job-1"],
+        ["job.cancelled", "job-1"],
+      ]);
+    });
+
+    it("should close the stream when the client disconnects or the server stops", async () => {
+      const first = openStream();
+      const second = openStream();
+      expect(server["events"].listenerCount()).toBe(2);
+
+      const onClose = first.mockReq.on.mock.calls.find((call) => call[0] === "close")![1];
+      onClose();
+      expect(server["events"].listenerCount()).toBe(1);
+
+      await server.stop();
+      expect(second.mockRes.end).toHaveBeenCalled();
+      expect(server["events"].listenerCount()).toBe(0);
+    });
+  });
+
+  describe("test harness", () => {
+    const dispatch = async (body: any) => {
+      const webhookHandler = mockExpressApp.post.mock.calls[0][1];
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      } as unknown as Response;
+
+      await webhookHandler({ body } as Request, mockRes);
+      return (mockRes.json as jest.Mock).mock.calls[0][0] as Job;
+    };
+
+    const respondWith = (status: number) =>
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: status < 300,
+        status,
+        text: () => Promise.resolve(""),
+      });
+
+    it("should emit job events to listeners", async () => {
+      const all = jest.fn();
+      const succeeded = jest.fn();
+      server.on("*", all).on("attempt.succeeded", succeeded);
+
+      respondWith(200);
+      const job = await dispatch({ payload: {} });
+      await server.waitForJob(job.id);
+
+      expect(all.mock.calls.map((call) => call[0].type)).toEqual([
+        "job.created",
+        "attempt.started",
+        "attempt.succeeded",
+      ]);
+      expect(succeeded).toHaveBeenCalledWith(
+        expect.objectContaining({
+          job: expect.objectContaining({ id: job.id, status: "COMPLETED" }),
+        })
+      );
+
+      server.off("*", all).off("attempt.succeeded", succeeded);
+      respondWith(200);
+      await dispatch({ payload: {} });
+      expect(all).toHaveBeenCalledTimes(3);
+      expect(succeeded).toHaveBeenCalledTimes(1);
+    });
+
+    it("should wait for a job to reach a status", async () => {
+      let deliver: (value: unknown) => void;
+      (global.fetch as jest.Mock).mockReturnValueOnce(
+        new Promise((resolve) => {
+          deliver = resolve;
+        })
+      );
+      const job = await dispatch({ payload: {} });
+
+      const dispatched = await server.waitForJob(job.id, "DISPATCHED");
+      expect(dispatched.status).toBe("DISPATCHED");
+
+      const finished = server.waitForJob(job.id, ["COMPLETED", "FAILED"]);
+      deliver!({ ok: false, status: 500, text: () => Promise.resolve("") });
+
+      expect((await finished).status).toBe("FAILED");
+      expect(server.getJob(job.id)!.attempts).toHaveLength(1);
+    });
+
+    it("should reject when the job does not get there in time", async () => {
+      const job = await dispatch({
+        payload: {},
+        scheduledFor: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      });
+
+      await expect(server.waitForJob(job.id, "COMPLETED", { timeout: 10 })).rejects.toThrow(
+        `Job ${job.id} did not become COMPLETED within 10ms, it is QUEUED`
+      );
+      await expect(server.waitForJob("missing")).rejects.toThrow("Job missing does not exist");
+    });
+
+    it("should forget everything on reset", async () => {
+      server["clock"].set(new Date("2030-01-01T00:00:00Z"));
+      await dispatch({ payload: {}, scheduledFor: "2030-01-02T00:00:00Z" });
+      await dispatch({ payload: {}, every: "1h" });
+      expect(server.getJobs()).toHaveLength(2);
+
+      await server.reset();
+
+      expect(server.getJobs()).toEqual([]);
+      expect(server["schedules"].size).toBe(0);
+      expect(server["clock"].getOffset()).toBe(0);
+    });
+  });
+
+  describe("chaos mode", () => {
+    const mockResponse = () =>
+      ({
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      } as unknown as Response);
+
+    const dispatch = async (body: any) => {
+      const webhookHandler = mockExpressApp.post.mock.calls[0][1];
+      const mockRes = mockResponse();
+
+      await webhookHandler({ body } as Request, mockRes);
+      await Promise.all(server["deliveries"]);
+      return (mockRes.json as jest.Mock).mock.calls[0][0] as Job;
+    };
+
+    const callChaos = (path: string, body: any = {}) => {
+      const chaosHandler = mockExpressApp.post.mock.calls.find((call) => call[0] === path)![1];
+      const mockRes = mockResponse();
+      chaosHandler({ body } as Request, mockRes);
+      return mockRes;
+    };
+
+    const okResponse = () => ({
+      ok: true,
+      status: 200,
+      text: () => Promise.resolve("success"),
+    });
+
+    it("should record dropped deliveries as failed attempts without sending them", async () => {
+      callChaos("/api/_dev/chaos", { dropRate: 1 });
+
+      const job = await dispatch({ payload: {} });
+
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(server.getJob(job.id)).toMatchObject({
+        status: "FAILED",
+        attempts: [expect.objectContaining({ error: "Delivery dropped by chaos mode" })],
+      });
+    });
+
+    it("should deliver a job twice with the same attempt id", async () => {
+      callChaos("/api/_dev/chaos", { duplicateRate: 1 });
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(okResponse())
+        .mockResolvedValueOnce(okResponse());
+
+      const job = await dispatch({ payload: {} });
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      const [first, second] = (global.fetch as jest.Mock).mock.calls;
+      expect(second[1].body).toBe(first[1].body);
+      expect(server.getJob(job.id)).toMatchObject({ status: "COMPLETED", attemptCount: 1 });
+    });
+
+    it("should hold deliveries back by the configured latency", async () => {
+      callChaos("/api/_dev/chaos", { latency: { min: 30, max: 30 } });
+      (global.fetch as jest.Mock).mockResolvedValueOnce(okResponse());
+
+      const startedAt = Date.now();
+      await dispatch({ payload: {} });
+
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(25);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should fail dispatch requests before they create a job", () => {
+      const chaosMiddleware = (mockExpressApp.use as jest.Mock).mock.calls.find(
+        (call) => call[0] === "/api/jobs/dispatch"
+      )![1];
+      const next = jest.fn();
+
+      let mockRes = mockResponse();
+      chaosMiddleware({ method: "POST" }, mockRes, next);
+      expect(next).toHaveBeenCalledTimes(1);
+
+      callChaos("/api/_dev/chaos", { apiErrorRate: 1 });
+      mockRes = mockResponse();
+      chaosMiddleware({ method: "POST" }, mockRes, next);
+
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(mockRes.status).toHaveBeenCalledWith(503);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ code: "CHAOS_API_ERROR" })
+      );
+    });
+
+    const deliveredJobIds = () =>
+      (global.fetch as jest.Mock).mock.calls.map((call) => JSON.parse(call[1].body).jobId);
+
+    it("should dispatch jobs that become due close together in random order", async () => {
+      server["chaos"] = new Chaos({ outOfOrder: true }, () => 0);
+      (global.fetch as jest.Mock).mockResolvedValue(okResponse());
+
+      // Due 50ms apart, after the 1 second scheduledDelay of the test config
+      const now = Date.now();
+      const ids = ["job-0", "job-1", "job-2", "job-3", "job-4", "job-5"];
+      ids.forEach((id, index) =>
+        server["jobCache"].set(id, {
+          id,
+          status: "QUEUED",
+          scheduledFor: new Date(now - 1000 + index * 50).toISOString(),
+          createdAt: new Date(now).toISOString(),
+          payload: {},
+          attemptCount: 0,
+          attempts: [],
+        })
+      );
+      server["startJobScheduler"]();
+
+      await new Promise((resolve) => setTimeout(resolve, 900));
+      await Promise.all(server["deliveries"]);
+
+      expect(deliveredJobIds()).toEqual(["job-1", "job-2", "job-3", "job-4", "job-5", "job-0"]);
+    });
+
+    it("should dispatch jobs created to run right away in random order", async () => {
+      server["chaos"] = new Chaos({ outOfOrder: true }, () => 0);
+      (global.fetch as jest.Mock).mockResolvedValue(okResponse());
+
+      const ids: string[] = [];
+      for (let i = 0; i < 4; i++) {
+        ids.push((await dispatch({ payload: { i } })).id);
+      }
+      expect(global.fetch).not.toHaveBeenCalled();
+
+      await server["outOfOrderBatch"]!.delivered;
+
+      expect(deliveredJobIds()).toEqual([ids[1], ids[2], ids[3], ids[0]]);
+    });
+
+    it("should change and reset the settings at runtime", () => {
+      const chaosServer = new Server({ ...mockConfig, chaos: { dropRate: 0.5 } });
+      expect(chaosServer["chaos"].getConfig()).toEqual({ dropRate: 0.5 });
+
+      let mockRes = callChaos("/api/_dev/chaos", { outOfOrder: true });
+      expect(mockRes.json).toHaveBeenCalledWith({ enabled: true, outOfOrder: true });
+
+      mockRes = callChaos("/api/_dev/chaos", { dropRate: 2 });
+      expect(mockRes.status).toHaveBeenCalledWith(422);
+
+      mockRes = callChaos("/api/_dev/chaos/reset");
+      expect(mockRes.json).toHaveBeenCalledWith({ enabled: false });
+    });
+  });
+
+  describe("logging", () => {
+    it("should log JSON events without leaking the webhook secret", async () => {
+      const consoleSpy = jest.spyOn(console, "log").mockImplementation();
+      const loggingServer = new Server({
+        ...mockConfig,
+        logLevel: "debug",
+        logFormat: "json",
+      });
+      const mockJob = { id: "logged", status: "QUEUED", payload: { data: "test" } };
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        text: () => Promise.resolve("error"),
+      });
+
+      try {
+        loggingServer["jobCache"].set("logged", mockJob as Job);
+        await loggingServer["dispatchJob"](mockJob as Job);
+
+        const events = consoleSpy.mock.calls.map((call) => JSON.parse(call[0]));
+        expect(events.map((event) => event.event)).toEqual(
+          expect.arrayContaining(["job.dispatched", "attempt.started", "attempt.failed", "job.failed"])
+        );
+        expect(JSON.stringify(events)).not.toContain(mockConfig.webhookSecret);
+      } finally {
+        loggingServer.stop();
+        consoleSpy.mockRestore();
+      }
+    });
+  });
+
   describe("listen", () => {
     it("should start server on specified port", () => {
       const consoleSpy = jest.spyOn(console, "log").mockImplementation();
@@ -500,5 +2173,111 @@ describe("Server", () => {
 
       consoleSpy.mockRestore();
     });
+
+    it("should resolve with the port once listening", async () => {
+      await expect(server.listen()).resolves.toBe(mockConfig.port);
+    });
+
+    it("should reject when the port cannot be used", async () => {
+      const httpServer = {
+        once: jest.fn((event, listener) => listener(new Error("listen EADDRINUSE"))),
+      };
+      mockExpressApp.listen.mockImplementationOnce(() => httpServer);
+
+      await expect(server.listen()).rejects.toThrow("listen EADDRINUSE");
+    });
+  });
+
+  describe("stop", () => {
+    const dispatchNow = async () => {
+      const webhookHandler = mockExpressApp.post.mock.calls[0][1];
+
+      const mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      } as unknown as Response;
+
+      await webhookHandler({ body: { payload: { data: "test" } } } as Request, mockRes);
+
+      return (mockRes.json as jest.Mock).mock.calls[0][0].id;
+    };
+
+    it("should close the HTTP server", async () => {
+      const httpServer = {
+        once: jest.fn(),
+        address: jest.fn(() => ({ port: 4321 })),
+        close: jest.fn((callback) => callback()),
+        closeIdleConnections: jest.fn(),
+      };
+      mockExpressApp.listen.mockImplementationOnce((port, callback) => {
+        setTimeout(callback!);
+        return httpServer;
+      });
+
+      await expect(server.listen()).resolves.toBe(4321);
+      await server.stop();
+
+      expect(httpServer.close).toHaveBeenCalled();
+      expect(httpServer.closeIdleConnections).toHaveBeenCalled();
+      expect(server["jobScheduler"]).toBeNull();
+    });
+
+    it("should wait for in-flight deliveries", async () => {
+      let respond: (value: unknown) => void = () => undefined;
+      (global.fetch as jest.Mock).mockImplementationOnce(
+        () => new Promise((resolve) => (respond = resolve))
+      );
+
+      const jobId = await dispatchNow();
+      const stopped = jest.fn();
+      const stopping = server.stop().then(stopped);
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(stopped).not.toHaveBeenCalled();
+
+      respond({ ok: true, status: 200, text: () => Promise.resolve("ok") });
+      await stopping;
+
+      expect(server["jobCache"].get(jobId)!.status).toBe("COMPLETED");
+    });
+
+    it("should give up on deliveries after the timeout", async () => {
+      (global.fetch as jest.Mock).mockImplementationOnce(() => new Promise(() => undefined));
+
+      const jobId = await dispatchNow();
+      await server.stop({ timeout: 10 });
+
+      expect(server["jobCache"].get(jobId)!.status).toBe("DISPATCHED");
+    });
+
+    it("should write the changes the store holds back", async () => {
+      const store = new MemoryJobStore();
+      const flush = jest.fn();
+      const storeServer = new Server({ ...mockConfig, store: Object.assign(store, { flush }) });
+
+      await storeServer.stop();
+
+      expect(flush).toHaveBeenCalled();
+    });
+
+    it("should log the signal it stops for", async () => {
+      const info = jest.spyOn(server["logger"], "info");
+
+      await server.stop({ signal: "SIGTERM" });
+
+      expect(info).toHaveBeenCalledWith(
+        "server.stopping",
+        "Received SIGTERM, shutting down...",
+        { signal: "SIGTERM" }
+      );
+    });
+
+    it("should not start new deliveries once stopping", async () => {
+      await server.stop();
+      const jobId = await dispatchNow();
+
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(server["jobCache"].get(jobId)!.status).toBe("QUEUED");
+    });
   });
 });
@@ -0,0 +1,77 @@
+import {
+  computeSignature,
+  SIGNATURE_HEADER,
+  signWebhook,
+  TIMESTAMP_HEADER,
+  verifyWebhookSignature,
+} from "../signing";
+
+describe("Webhook Signing", () => {
+  const secret = "test-secret";
+  const body = '{"jobId":"123","payload":{"data":"test"}}';
+  const now = Date.UTC(2024, 0, 1);
+
+  it("should sign the timestamp and raw body", () => {
+    const headers = signWebhook(secret, body, now);
+
+    expect(headers[TIMESTAMP_HEADER]).toBe(String(now / 1000));
+    expect(headers[SIGNATURE_HEADER]).toBe(
+      computeSignature(secret, String(now / 1000), body)
+    );
+    expect(headers[SIGNATURE_HEADER]).toMatch(/^sha256=[0-9a-f]{64}$/);
+  });
+
+  it("should verify a valid signature", () => {
+    const headers = signWebhook(secret, body, now);
+
+    expect(
+      verifyWebhookSignature({
+        secret,
+        body,
+        signature: headers[SIGNATURE_HEADER],
+        timestamp: headers[TIMESTAMP_HEADER],
+        now: now + 1000,
+      })
+    ).toBe(true);
+  });
+
+  it("should reject a tampered body or wrong secret", () => {
+    const headers = signWebhook(secret, body, now);
+    const options = {
+      secret,
+      body,
+      signature: headers[SIGNATURE_HEADER],
+      timestamp: headers[TIMESTAMP_HEADER],
+      now,
+    };
+
+    expect(verifyWebhookSignature({ ...options, body: body + " " })).toBe(false);
+    expect(verifyWebhookSignature({ ...options, secret: "other" })).toBe(false);
+    expect(verifyWebhookSignature({ ...options, signature: "sha256=abc" })).toBe(false);
+  });
+
+  it("should reject requests outside the replay window", () => {
+    const headers = signWebhook(secret, body, now);
+    const options = {
+      secret,
+      body,
+      signature: headers[SIGNATURE_HEADER],
+      timestamp: headers[TIMESTAMP_HEADER],
+    };
+
+    expect(verifyWebhookSignature({ ...options, now: now + 301 * 1000 })).toBe(false);
+    expect(verifyWebhookSignature({ ...options, now: now - 301 * 1000 })).toBe(false);
+    expect(
+      verifyWebhookSignature({ ...options, now: now + 301 * 1000, tolerance: 600 })
+    ).toBe(true);
+  });
+
+  it("should reject missing headers", () => {
+    expect(
+      verifyWebhookSignature({ secret, body, signature: undefined, timestamp: "1" })
+    ).toBe(false);
+    expect(
+      verifyWebhookSignature({ secret, body, signature: "sha256=abc", timestamp: undefined })
+    ).toBe(false);
+  });
+});
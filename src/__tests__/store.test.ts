@@ -0,0 +1,100 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Job } from "../job";
+import { FileJobStore, MemoryJobStore } from "../store";
+
+describe("Job Stores", () => {
+  describe("MemoryJobStore", () => {
+    it("should get, set, list and delete jobs", () => {
+      const store = new MemoryJobStore();
+
+      store.set("a", { id: "a", status: "QUEUED" } as Job);
+      store.set("b", { id: "b", status: "COMPLETED" } as Job);
+
+      expect(store.get("a")).toEqual({ id: "a", status: "QUEUED" });
+      expect(store.values()).toHaveLength(2);
+      expect(store.delete("a")).toBe(true);
+      expect(store.delete("a")).toBe(false);
+      expect(store.get("a")).toBeUndefined();
+    });
+  });
+
+  describe("FileJobStore", () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "dispatched-store-"));
+      filePath = path.join(dir, "nested", "jobs.json");
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should start empty when the file does not exist", () => {
+      const store = new FileJobStore(filePath);
+
+      expect(store.values()).toEqual([]);
+      expect(fs.existsSync(filePath)).toBe(false);
+    });
+
+    it("should persist jobs across instances", () => {
+      const store = new FileJobStore(filePath);
+      store.set("a", { id: "a", status: "QUEUED", scheduledFor: "2024-01-01T00:00:00.000Z" } as Job);
+      store.set("b", { id: "b", status: "COMPLETED" } as Job);
+      store.delete("b");
+      store.flush();
+
+      const reloaded = new FileJobStore(filePath);
+
+      expect(reloaded.values()).toEqual([
+        { id: "a", status: "QUEUED", scheduledFor: "2024-01-01T00:00:00.000Z" },
+      ]);
+    });
+
+    it("should re-queue jobs that were interrupted mid-delivery", () => {
+      const store = new FileJobStore(filePath);
+      store.set("a", { id: "a", status: "DISPATCHED" } as Job);
+      store.flush();
+
+      expect(new FileJobStore(filePath).get("a")!.status).toBe("QUEUED");
+    });
+
+    it("should write the changes of one tick together", async () => {
+      const writeFileSync = jest.spyOn(fs, "writeFileSync");
+      const store = new FileJobStore(filePath);
+
+      try {
+        for (let i = 0; i < 100; i++) {
+          store.set(`job-${i}`, { id: `job-${i}`, status: "QUEUED" } as Job);
+        }
+        expect(writeFileSync).not.toHaveBeenCalled();
+
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(writeFileSync).toHaveBeenCalledTimes(1);
+        expect(new FileJobStore(filePath).values()).toHaveLength(100);
+      } finally {
+        writeFileSync.mockRestore();
+      }
+    });
+
+    it("should reject files that are not a job store", () => {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify({ foo: "bar" }));
+
+      expect(() => new FileJobStore(filePath)).toThrow("Invalid job store file");
+    });
+
+    it("should name the file when it is not valid JSON", () => {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, '{"jobs": [{"id": "a"');
+
+      expect(() => new FileJobStore(filePath)).toThrow(
+        `Invalid job store file: ${path.resolve(filePath)} is not valid JSON`
+      );
+    });
+  });
+});
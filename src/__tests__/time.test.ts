@@ -0,0 +1,79 @@
+import { Clock } from "../clock";
+import { parseDuration, resolveScheduledFor } from "../time";
+
+describe("Time", () => {
+  describe("parseDuration", () => {
+    it("should parse relative durations", () => {
+      expect(parseDuration("30s")).toBe(30 * 1000);
+      expect(parseDuration("5m")).toBe(5 * 60 * 1000);
+      expect(parseDuration("1h")).toBe(60 * 60 * 1000);
+      expect(parseDuration("2d")).toBe(2 * 24 * 60 * 60 * 1000);
+    });
+
+    it("should return undefined for anything else", () => {
+      expect(parseDuration("5")).toBeUndefined();
+      expect(parseDuration("5w")).toBeUndefined();
+      expect(parseDuration("2024-12-31T23:59:59Z")).toBeUndefined();
+    });
+  });
+
+  describe("resolveScheduledFor", () => {
+    it("should turn relative durations into ISO dates", () => {
+      const now = Date.UTC(2024, 0, 1);
+
+      expect(resolveScheduledFor("5m", now)).toBe("2024-01-01T00:05:00.000Z");
+    });
+
+    it("should pass other values through", () => {
+      expect(resolveScheduledFor("2024-12-31T23:59:59Z")).toBe("2024-12-31T23:59:59Z");
+    });
+  });
+
+  describe("Clock", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.setSystemTime(Date.UTC(2024, 0, 1));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should follow the system time by default", () => {
+      const clock = new Clock();
+
+      expect(clock.now()).toBe(Date.UTC(2024, 0, 1));
+      jest.advanceTimersByTime(1000);
+      expect(clock.now()).toBe(Date.UTC(2024, 0, 1, 0, 0, 1));
+    });
+
+    it("should advance, set and reset", () => {
+      const clock = new Clock();
+
+      clock.advance(2 * 60 * 60 * 1000);
+      expect(clock.date().toISOString()).toBe("2024-01-01T02:00:00.000Z");
+      expect(clock.getOffset()).toBe(2 * 60 * 60 * 1000);
+
+      clock.set(new Date("2024-03-01T00:00:00Z"));
+      expect(clock.date().toISOString()).toBe("2024-03-01T00:00:00.000Z");
+
+      clock.reset();
+      expect(clock.now()).toBe(Date.UTC(2024, 0, 1));
+    });
+
+    it("should tell listeners when it is moved", () => {
+      const clock = new Clock();
+      const listener = jest.fn();
+      const unwatch = clock.onChange(listener);
+
+      clock.advance(1000);
+      clock.set(new Date("2024-03-01T00:00:00Z"));
+      clock.reset();
+      expect(listener).toHaveBeenCalledTimes(3);
+
+      unwatch();
+      clock.advance(1000);
+      expect(listener).toHaveBeenCalledTimes(3);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  MAX_BATCH_SIZE,
+  MAX_PAYLOAD_SIZE,
+  validateBatchRequest,
+  validateDispatchRequest,
+  validateUpdateRequest,
+  ValidationError,
+} from "../validation";
+
+describe("Validation", () => {
+  const expectValidationError = (fn: () => unknown, status: number, code: string) => {
+    try {
+      fn();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error).toEqual(expect.objectContaining({ status, code }));
+      return;
+    }
+    throw new Error("Expected a ValidationError");
+  };
+
+  describe("validateDispatchRequest", () => {
+    it("should return the validated fields", () => {
+      expect(
+        validateDispatchRequest({
+          payload: { data: "test" },
+          scheduledFor: "2030-01-01T09:30:00.000+02:00",
+          queue: "emails",
+          retry: { maxAttempts: 3, unknown: true },
+        })
+      ).toEqual({
+        payload: { data: "test" },
+        scheduledFor: "2030-01-01T09:30:00.000+02:00",
+        queue: "emails",
+        retry: { maxAttempts: 3 },
+      });
+    });
+
+    it("should reject bodies that are not objects", () => {
+      expectValidationError(() => validateDispatchRequest(undefined), 400, "INVALID_BODY");
+      expectValidationError(() => validateDispatchRequest([]), 400, "INVALID_BODY");
+    });
+
+    it("should require an object payload", () => {
+      expectValidationError(() => validateDispatchRequest({}), 400, "MISSING_FIELD");
+      expectValidationError(
+        () => validateDispatchRequest({ payload: "text" }),
+        400,
+        "INVALID_FIELD_TYPE"
+      );
+    });
+
+    it("should reject payloads above the size limit", () => {
+      const payload = { data: "x".repeat(MAX_PAYLOAD_SIZE) };
+
+      expectValidationError(
+        () => validateDispatchRequest({ payload }),
+        422,
+        "PAYLOAD_TOO_LARGE"
+      );
+    });
+
+    it("should only accept ISO 8601 dates", () => {
+      expect(validateDispatchRequest({ payload: {}, scheduledFor: "2030-01-01" })).toEqual({
+        payload: {},
+        scheduledFor: "2030-01-01",
+      });
+      expectValidationError(
+        () => validateDispatchRequest({ payload: {}, scheduledFor: "2030-01-01T09:30:00" }),
+        422,
+        "INVALID_DATE"
+      );
+      expectValidationError(
+        () => validateDispatchRequest({ payload: {}, scheduledFor: "2030-13-45T00:00:00Z" }),
+        422,
+        "INVALID_DATE"
+      );
+      expectValidationError(
+        () => validateDispatchRequest({ payload: {}, scheduledFor: 1893456000000 }),
+        400,
+        "INVALID_FIELD_TYPE"
+      );
+    });
+
+    it("should reject unknown fields and invalid field types", () => {
+      expectValidationError(
+        () => validateDispatchRequest({ payload: {}, priority: 1 }),
+        400,
+        "UNKNOWN_FIELD"
+      );
+      expectValidationError(
+        () => validateDispatchRequest({ payload: {}, queue: "" }),
+        400,
+        "INVALID_FIELD_TYPE"
+      );
+      expectValidationError(
+        () => validateDispatchRequest({ payload: {}, retry: { maxAttempts: -1 } }),
+        422,
+        "INVALID_RETRY_POLICY"
+      );
+    });
+  });
+
+  describe("recurring jobs", () => {
+    it("should accept a cron expression or an interval", () => {
+      expect(validateDispatchRequest({ payload: {}, cron: "0 3 * * *" })).toEqual({
+        payload: {},
+        cron: "0 3 * * *",
+      });
+      expect(validateDispatchRequest({ payload: {}, every: "15m" })).toEqual({
+        payload: {},
+        every: "15m",
+      });
+    });
+
+    it("should reject invalid or conflicting schedules", () => {
+      expectValidationError(
+        () => validateDispatchRequest({ payload: {}, cron: "every day" }),
+        422,
+        "INVALID_CRON"
+      );
+      expectValidationError(
+        () => validateDispatchRequest({ payload: {}, cron: "0 0 30 2 *" }),
+        422,
+        "INVALID_CRON"
+      );
+      expectValidationError(
+        () => validateDispatchRequest({ payload: {}, every: "500ms" }),
+        422,
+        "INVALID_INTERVAL"
+      );
+      expectValidationError(
+        () => validateDispatchRequest({ payload: {}, cron: "@daily", every: "1d" }),
+        400,
+        "CONFLICTING_FIELDS"
+      );
+      expectValidationError(
+        () =>
+          validateDispatchRequest({
+            payload: {},
+            every: "1d",
+            scheduledFor: "2030-01-01T00:00:00Z",
+          }),
+        400,
+        "CONFLICTING_FIELDS"
+      );
+    });
+  });
+
+  describe("validateBatchRequest", () => {
+    it("should return the items of the batch", () => {
+      expect(validateBatchRequest({ jobs: [{ payload: {} }, "invalid"] })).toEqual([
+        { payload: {} },
+        "invalid",
+      ]);
+    });
+
+    it("should require between 1 and MAX_BATCH_SIZE jobs", () => {
+      expectValidationError(() => validateBatchRequest({}), 400, "INVALID_FIELD_TYPE");
+      expectValidationError(
+        () => validateBatchRequest({ jobs: [] }),
+        422,
+        "INVALID_BATCH_SIZE"
+      );
+      expectValidationError(
+        () => validateBatchRequest({ jobs: new Array(MAX_BATCH_SIZE + 1).fill({}) }),
+        422,
+        "INVALID_BATCH_SIZE"
+      );
+    });
+  });
+
+  describe("validateUpdateRequest", () => {
+    it("should return the new scheduledFor", () => {
+      expect(validateUpdateRequest({ scheduledFor: "2030-01-01T00:00:00Z" })).toEqual({
+        scheduledFor: "2030-01-01T00:00:00Z",
+      });
+    });
+
+    it("should require a valid scheduledFor and nothing else", () => {
+      expectValidationError(() => validateUpdateRequest({}), 400, "MISSING_FIELD");
+      expectValidationError(
+        () => validateUpdateRequest({ scheduledFor: "soon" }),
+        422,
+        "INVALID_DATE"
+      );
+      expectValidationError(
+        () => validateUpdateRequest({ scheduledFor: "2030-01-01", payload: {} }),
+        400,
+        "UNKNOWN_FIELD"
+      );
+    });
+  });
+});
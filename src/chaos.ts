@@ -0,0 +1,183 @@
+import { ValidationError } from "./validation";
+
+// Faults the local server can inject to test how receivers and API clients
+// cope with a misbehaving job service. Rates are probabilities from 0 to 1.
+export interface ChaosConfig {
+  dropRate?: number; // deliveries that are never sent, recorded as failed attempts
+  duplicateRate?: number; // deliveries sent twice, with the same attempt id
+  latency?: LatencyRange; // milliseconds to wait before each delivery
+  outOfOrder?: boolean; // dispatch due jobs in random order
+  apiErrorRate?: number; // dispatch requests answered with a 503 without creating a job
+}
+
+export interface LatencyRange {
+  min: number;
+  max: number;
+}
+
+const RATE_KEYS = ["dropRate", "duplicateRate", "apiErrorRate"] as const;
+const CHAOS_FIELDS = [...RATE_KEYS, "latency", "outOfOrder"];
+
+const invalidChaos = (message: string) =>
+  new ValidationError(message, 422, "INVALID_CHAOS_CONFIG");
+
+// Parses latency options like '500' or '100-2000' (milliseconds), or with
+// units like '1s-3s'
+export const parseLatencyRange = (value: string): LatencyRange => {
+  const toMilliseconds = (part: string) => {
+    const match = /^(\d+)(ms|s)?$/.exec(part.trim());
+    if (!match) {
+      throw invalidChaos(
+        `Invalid latency '${value}', expected milliseconds like '500' or a range like '100-2000'`
+      );
+    }
+    return parseInt(match[1], 10) * (match[2] === "s" ? 1000 : 1);
+  };
+
+  const [min, max = min] = value.split("-");
+  return validateLatency({ min: toMilliseconds(min), max: toMilliseconds(max) });
+};
+
+const validateLatency = (value: unknown): LatencyRange => {
+  const range = value as LatencyRange;
+
+  if (
+    !range ||
+    typeof range.min !== "number" ||
+    typeof range.max !== "number" ||
+    !(range.min >= 0) ||
+    !(range.max >= range.min)
+  ) {
+    throw invalidChaos("'latency' must be { min, max } in milliseconds, with 0 <= min <= max");
+  }
+
+  return { min: range.min, max: range.max };
+};
+
+// Checks settings sent to POST /api/_dev/chaos. Settings that are left out
+// are not part of the result, so they keep their current value.
+export const validateChaosConfig = (body: unknown): ChaosConfig => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new ValidationError("Request body must be a JSON object", 400, "INVALID_BODY");
+  }
+
+  const fields = body as Record<string, unknown>;
+  const unknownFields = Object.keys(fields).filter((key) => CHAOS_FIELDS.indexOf(key) === -1);
+  if (unknownFields.length > 0) {
+    throw new ValidationError(
+      `Unknown field(s): ${unknownFields.map((key) => `'${key}'`).join(", ")}`,
+      400,
+      "UNKNOWN_FIELD"
+    );
+  }
+
+  const config: ChaosConfig = {};
+  for (const key of RATE_KEYS) {
+    const rate = fields[key];
+    if (rate === undefined) continue;
+
+    if (typeof rate !== "number" || !(rate >= 0 && rate <= 1)) {
+      throw invalidChaos(`'${key}' must be a number from 0 to 1`);
+    }
+    config[key] = rate;
+  }
+  if (fields.latency !== undefined) {
+    config.latency = validateLatency(fields.latency);
+  }
+  if (fields.outOfOrder !== undefined) {
+    if (typeof fields.outOfOrder !== "boolean") {
+      throw invalidChaos("'outOfOrder' must be a boolean");
+    }
+    config.outOfOrder = fields.outOfOrder;
+  }
+
+  return config;
+};
+
+// Rolls the dice for the configured faults. `random` is replaceable so tests
+// can make the outcome predictable.
+export class Chaos {
+  private config: ChaosConfig;
+  private random: () => number;
+
+  constructor(config: ChaosConfig = {}, random: () => number = Math.random) {
+    this.config = { ...config };
+    this.random = random;
+  }
+
+  getConfig(): ChaosConfig {
+    return { ...this.config };
+  }
+
+  update(changes: ChaosConfig): ChaosConfig {
+    this.config = { ...this.config, ...changes };
+    return this.getConfig();
+  }
+
+  reset(): ChaosConfig {
+    this.config = {};
+    return this.getConfig();
+  }
+
+  isEnabled(): boolean {
+    const { dropRate, duplicateRate, latency, outOfOrder, apiErrorRate } = this.config;
+    return !!(dropRate || duplicateRate || latency?.max || outOfOrder || apiErrorRate);
+  }
+
+  shouldDrop(): boolean {
+    return this.roll(this.config.dropRate);
+  }
+
+  shouldDuplicate(): boolean {
+    return this.roll(this.config.duplicateRate);
+  }
+
+  shouldFailApi(): boolean {
+    return this.roll(this.config.apiErrorRate);
+  }
+
+  // Milliseconds to hold the next delivery back
+  latency(): number {
+    const range = this.config.latency;
+    if (!range) {
+      return 0;
+    }
+    return Math.round(range.min + this.random() * (range.max - range.min));
+  }
+
+  // Returns the items in random order when out-of-order dispatch is on
+  order<T>(items: T[]): T[] {
+    if (!this.config.outOfOrder) {
+      return items;
+    }
+
+    const shuffled = items.slice();
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  private roll(rate: number | undefined): boolean {
+    return !!rate && this.random() < rate;
+  }
+}
+
+// Human readable summary of the active faults, for logs and the CLI
+export const describeChaos = (config: ChaosConfig): string => {
+  const percent = (rate: number) => `${Math.round(rate * 1000) / 10}%`;
+  const parts: string[] = [];
+
+  if (config.dropRate) parts.push(`dropping ${percent(config.dropRate)} of deliveries`);
+  if (config.duplicateRate) parts.push(`duplicating ${percent(config.duplicateRate)}`);
+  if (config.latency?.max) {
+    parts.push(`adding ${config.latency.min}-${config.latency.max}ms latency`);
+  }
+  if (config.outOfOrder) parts.push("dispatching out of order");
+  if (config.apiErrorRate) {
+    parts.push(`failing ${percent(config.apiErrorRate)} of dispatch requests`);
+  }
+
+  return parts.length > 0 ? parts.join(", ") : "off";
+};
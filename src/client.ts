@@ -0,0 +1,266 @@
+// Helpers shared by the CLI commands that talk to a running local server.
+
+import fs from "fs";
+import { JobEvent } from "./events";
+import { FINAL_JOB_STATUSES, Job } from "./job";
+import { parseDuration, resolveScheduledFor } from "./time";
+
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+    Object.setPrototypeOf(this, ApiError.prototype);
+  }
+}
+
+// Body of the /api/_dev/clock endpoints
+export interface ClockState {
+  now: string;
+  offset: number; // milliseconds the server clock is ahead of the system time
+}
+
+// Sends a JSON request to the server and returns the parsed response body,
+// typed as `T` without checking it. Non-2xx responses throw an ApiError
+// carrying the server's `message`, falling back to `error` and the HTTP
+// status text.
+export const apiRequest = async <T = unknown>(
+  baseUrl: string,
+  path: string,
+  init: { method?: string; body?: unknown; apiKey?: string } = {}
+): Promise<T> => {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+
+  if (init.apiKey) {
+    headers.Authorization = `Bearer ${init.apiKey}`;
+  }
+
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: init.method ?? "GET",
+    headers,
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+
+  return (await response.json()) as T;
+};
+
+const toApiError = async (response: Response): Promise<ApiError> => {
+  const error = await response.json().catch(() => ({}));
+  const errorMessage = error.message || error.error || response.statusText;
+  return new ApiError(errorMessage, response.status, error.code);
+};
+
+export interface ServerSentEvent {
+  id?: string;
+  event: string; // "message" when the server sent no event name
+  data: string;
+}
+
+// Splits a text/event-stream buffer into its complete events. `rest` is the
+// unfinished event at the end, to be completed by the next chunk.
+export const parseServerSentEvents = (
+  buffer: string
+): { events: ServerSentEvent[]; rest: string } => {
+  const blocks = buffer.replace(/\r\n/g, "\n").split("\n\n");
+  const rest = blocks.pop() ?? "";
+  const events: ServerSentEvent[] = [];
+
+  for (const block of blocks) {
+    const event: ServerSentEvent = { event: "message", data: "" };
+    const data: string[] = [];
+
+    for (const line of block.split("\n")) {
+      // Lines starting with a colon are comments, like heartbeats
+      if (line === "" || line[0] === ":") continue;
+
+      const separator = line.indexOf(":");
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+
+      if (field === "data") data.push(value);
+      if (field === "event") event.event = value;
+      if (field === "id") event.id = value;
+    }
+
+    if (data.length > 0) {
+      event.data = data.join("\n");
+      events.push(event);
+    }
+  }
+
+  return { events, rest };
+};
+
+// Follows a Server-Sent Events endpoint of the server and calls `onEvent`
+// for every event. Resolves when the server closes the stream.
+export const streamEvents = async (
+  baseUrl: string,
+  path: string,
+  init: { apiKey?: string },
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> => {
+  const headers: Record<string, string> = { Accept: "text/event-stream" };
+
+  if (init.apiKey) {
+    headers.Authorization = `Bearer ${init.apiKey}`;
+  }
+
+  const response = await fetch(`${baseUrl}${path}`, { headers });
+
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+  if (!response.body) {
+    throw new ApiError("The server sent no event stream", response.status);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+
+    const parsed = parseServerSentEvents(buffer + decoder.decode(value, { stream: true }));
+    buffer = parsed.rest;
+    parsed.events.forEach((event) => onEvent(event));
+  }
+};
+
+// Reads the payload of `dispatchedjs send`: inline JSON, a JSON file, or
+// stdin when neither is given (or the inline payload is '-').
+export const readPayload = async (
+  source: { payload?: string; file?: string },
+  stdin: NodeJS.ReadStream = process.stdin
+): Promise<unknown> => {
+  if (source.payload !== undefined && source.file !== undefined) {
+    throw new Error("Pass the payload inline or with --file, not both");
+  }
+
+  let text: string;
+  if (source.file !== undefined) {
+    text = fs.readFileSync(source.file, "utf8");
+  } else if (source.payload !== undefined && source.payload !== "-") {
+    text = source.payload;
+  } else if (stdin.isTTY) {
+    throw new Error("Pass a payload inline, with --file or on stdin");
+  } else {
+    text = await readStream(stdin);
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Payload is not valid JSON: ${(error as Error).message}`);
+  }
+};
+
+const readStream = (stream: NodeJS.ReadableStream): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    let text = "";
+    stream.setEncoding("utf8");
+    stream.on("data", (chunk: string) => (text += chunk));
+    stream.on("end", () => resolve(text));
+    stream.on("error", reject);
+  });
+};
+
+// Polls a job until it reaches a final status and returns it. Throws once
+// `timeout` milliseconds have passed, 0 waits forever.
+export const waitForJob = async (
+  baseUrl: string,
+  jobId: string,
+  options: { apiKey?: string; interval?: number; timeout?: number } = {}
+): Promise<Job> => {
+  const interval = options.interval ?? 500;
+  const deadline = options.timeout ? Date.now() + options.timeout : Infinity;
+
+  for (;;) {
+    const job = await apiRequest<Job>(baseUrl, `/api/jobs/${jobId}`, {
+      apiKey: options.apiKey,
+    });
+
+    if (FINAL_JOB_STATUSES.indexOf(job.status) !== -1) {
+      return job;
+    }
+    if (Date.now() + interval > deadline) {
+      throw new Error(`Timed out waiting for job ${jobId}, it is still ${job.status}`);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, interval));
+  }
+};
+
+// Turns a relative `--scheduledFor` like '5m' into an ISO date on the server
+// clock, which `clock advance` may have moved away from this machine's time.
+// Other values are passed through for the server to interpret.
+export const resolveServerScheduledFor = async (
+  baseUrl: string,
+  value: string,
+  apiKey?: string
+): Promise<string> => {
+  if (parseDuration(value) === undefined) {
+    return value;
+  }
+
+  const clock = await apiRequest<ClockState>(baseUrl, "/api/_dev/clock", { apiKey });
+  return resolveScheduledFor(value, Date.parse(clock.now));
+};
+
+// Renders rows as a plain-text table with one padded column per key.
+export const formatTable = (
+  rows: Record<string, unknown>[],
+  columns: { key: string; label: string }[]
+): string => {
+  const cell = (value: unknown) =>
+    value === undefined || value === null ? "-" : String(value);
+
+  const widths = columns.map((column) =>
+    Math.max(
+      column.label.length,
+      ...rows.map((row) => cell(row[column.key]).length)
+    )
+  );
+
+  const line = (values: string[]) =>
+    values
+      .map((value, index) => value.padEnd(widths[index]))
+      .join("  ")
+      .trimEnd();
+
+  return [
+    line(columns.map((column) => column.label)),
+    ...rows.map((row) => line(columns.map((column) => cell(row[column.key])))),
+  ].join("\n");
+};
+
+// One line per event, as printed by `dispatchedjs tail`
+export const describeJobEvent = (event: JobEvent): string => {
+  const parts = [event.time, event.type.padEnd(17), event.job.id, event.job.status];
+
+  if (event.type === "attempt.started") {
+    parts.push(`attempt ${event.job.attemptCount}`);
+  }
+  if (event.attempt) {
+    parts.push(`attempt ${event.attempt.attemptNumber}`);
+    parts.push(
+      event.attempt.error ?? `HTTP ${event.attempt.statusCode} in ${event.attempt.duration}ms`
+    );
+  }
+  if (event.type === "job.created" || event.type === "job.updated") {
+    parts.push(`scheduled for ${event.job.scheduledFor}`);
+  }
+
+  return parts.join("  ");
+};
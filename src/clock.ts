@@ -0,0 +1,49 @@
+// Time source of the server. Starts at the system time and can be moved
+// forward (or set to any date) to fast-forward scheduled jobs during tests.
+export class Clock {
+  private offset = 0;
+  private listeners: (() => void)[] = [];
+
+  now(): number {
+    return Date.now() + this.offset;
+  }
+
+  date(): Date {
+    return new Date(this.now());
+  }
+
+  getOffset(): number {
+    return this.offset;
+  }
+
+  advance(milliseconds: number): void {
+    this.offset += milliseconds;
+    this.changed();
+  }
+
+  set(date: Date): void {
+    this.offset = date.getTime() - Date.now();
+    this.changed();
+  }
+
+  reset(): void {
+    this.offset = 0;
+    this.changed();
+  }
+
+  // Calls `listener` whenever the clock is moved, so timers waiting for a
+  // clock time can be set again. Returns a function that removes it.
+  onChange(listener: () => void): () => void {
+    this.listeners.push(listener);
+
+    return () => {
+      this.listeners = this.listeners.filter((other) => other !== listener);
+    };
+  }
+
+  private changed(): void {
+    for (const listener of this.listeners.slice()) {
+      listener();
+    }
+  }
+}
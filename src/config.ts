@@ -0,0 +1,34 @@
+import fs from "fs";
+import path from "path";
+
+// Where the CLI looks up option values, from highest to lowest precedence:
+// command line flags, DISPATCHED_* environment variables, the config file,
+// the "dispatched" key in package.json and finally the option defaults.
+export const CONFIG_FILE_NAME = "dispatched.config.json";
+export const ENV_PREFIX = "DISPATCHED";
+export const PACKAGE_JSON_KEY = "dispatched";
+
+// Reads a JSON config file with option values keyed like the CLI flags
+// (e.g. `{ "secret": "abc123", "port": 3200 }`). The default config file is
+// optional; a file passed explicitly via `--config` must exist.
+export const loadConfigFile = (
+  filePath: string,
+  cwd: string = process.cwd()
+): Record<string, unknown> => {
+  const resolvedPath = path.resolve(cwd, filePath);
+
+  if (!fs.existsSync(resolvedPath)) {
+    if (resolvedPath === path.resolve(cwd, CONFIG_FILE_NAME)) {
+      return {};
+    }
+    throw new Error(`Config file not found: ${resolvedPath}`);
+  }
+
+  const config = JSON.parse(fs.readFileSync(resolvedPath, "utf8"));
+
+  if (!config || typeof config !== "object" || Array.isArray(config)) {
+    throw new Error(`Config file must contain a JSON object: ${resolvedPath}`);
+  }
+
+  return config;
+};
@@ -0,0 +1,143 @@
+// Minimal 5-field cron support ("minute hour day-of-month month day-of-week")
+// for recurring jobs. Fields accept `*`, numbers, ranges (`1-5`), lists
+// (`1,15`) and steps (`*/15`, `0-30/10`). Expressions are evaluated in UTC.
+
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[]; // 1-12
+  daysOfWeek: number[]; // 0-6, Sunday is 0
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 }, // 7 is Sunday as well
+];
+
+// Gives up looking for the next run after this many years, e.g. for
+// "0 0 30 2 *" which never matches
+const MAX_SEARCH_YEARS = 5;
+
+const MINUTE = 60 * 1000;
+
+const parseField = (value: string, min: number, max: number, name: string): number[] => {
+  const values: number[] = [];
+
+  for (const part of value.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid ${name} '${part}'`);
+    }
+
+    const start = match[1] === "*" ? min : parseInt(match[2], 10);
+    const end =
+      match[1] === "*" ? max : match[3] !== undefined ? parseInt(match[3], 10) : start;
+    // A step without a range, like '5/15', runs from the value to the maximum
+    const last = match[4] !== undefined && match[3] === undefined ? max : end;
+    const step = match[4] !== undefined ? parseInt(match[4], 10) : 1;
+
+    if (start < min || last > max || start > last || step < 1) {
+      throw new Error(`Invalid ${name} '${part}', expected values from ${min} to ${max}`);
+    }
+
+    for (let current = start; current <= last; current += step) {
+      if (values.indexOf(current) === -1) {
+        values.push(current);
+      }
+    }
+  }
+
+  return values.sort((a, b) => a - b);
+};
+
+// Throws an Error describing the problem for invalid expressions
+export const parseCron = (expression: string): CronSchedule => {
+  const normalized = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const parts = normalized.split(/\s+/);
+
+  if (parts.length !== FIELDS.length) {
+    throw new Error(
+      `Cron expression must have 5 fields (minute hour day-of-month month day-of-week), got '${expression}'`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELDS[index].min, FIELDS[index].max, FIELDS[index].name)
+  );
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek: daysOfWeek
+      .map((day) => day % 7)
+      .filter((day, index, days) => days.indexOf(day) === index),
+    anyDayOfMonth: parts[2] === "*",
+    anyDayOfWeek: parts[4] === "*",
+  };
+};
+
+// Like classic cron, a restricted day of month and day of week match when
+// either of them does
+const matchesDay = (schedule: CronSchedule, date: Date): boolean => {
+  const dayOfMonth = schedule.daysOfMonth.indexOf(date.getUTCDate()) !== -1;
+  const dayOfWeek = schedule.daysOfWeek.indexOf(date.getUTCDay()) !== -1;
+
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+};
+
+// First time strictly after `after` that matches the schedule, or undefined
+// when there is none within the next few years
+export const nextCronRun = (schedule: CronSchedule, after: Date): Date | undefined => {
+  // Start at the next whole minute
+  const date = new Date(Math.floor(after.getTime() / MINUTE) * MINUTE + MINUTE);
+  const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * MINUTE;
+
+  while (date.getTime() <= limit) {
+    if (schedule.months.indexOf(date.getUTCMonth() + 1) === -1) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (schedule.hours.indexOf(date.getUTCHours()) === -1) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (schedule.minutes.indexOf(date.getUTCMinutes()) === -1) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return date;
+  }
+
+  return undefined;
+};
@@ -0,0 +1,86 @@
+import { Attempt, Job } from "./job";
+
+export type JobEventType =
+  | "job.created"
+  | "job.updated"
+  | "job.cancelled"
+  | "attempt.started"
+  | "attempt.succeeded"
+  | "attempt.failed";
+
+// A change in a job's lifecycle, as streamed by GET /api/events
+export interface JobEvent {
+  id: number; // increases by one per event, sent as the SSE event id
+  type: JobEventType;
+  time: string; // server clock time of the change
+  job: Job; // the job after the change
+  attempt?: Attempt; // the finished attempt, for attempt.succeeded and attempt.failed
+}
+
+// Narrows the stream to some jobs or statuses, every filter matches when unset
+export interface JobEventFilter {
+  jobIds?: string[];
+  statuses?: string[];
+}
+
+export type JobEventListener = (event: JobEvent) => void;
+
+interface Subscription {
+  listener: JobEventListener;
+  type?: JobEventType; // every event when unset
+}
+
+// Fans job events out to the connected event streams and the listeners
+// added with Server#on
+export class JobEventBus {
+  private subscriptions: Subscription[] = [];
+  private lastId = 0;
+
+  publish(event: Omit<JobEvent, "id">): JobEvent {
+    const published: JobEvent = { id: ++this.lastId, ...event };
+
+    // Copied, a listener may unsubscribe while the event is delivered
+    for (const subscription of this.subscriptions.slice()) {
+      if (!subscription.type || subscription.type === published.type) {
+        subscription.listener(published);
+      }
+    }
+
+    return published;
+  }
+
+  // Returns a function that removes the listener again
+  subscribe(listener: JobEventListener, type?: JobEventType): () => void {
+    const subscription: Subscription = { listener, type };
+    this.subscriptions.push(subscription);
+
+    return () => {
+      this.subscriptions = this.subscriptions.filter((other) => other !== subscription);
+    };
+  }
+
+  unsubscribe(listener: JobEventListener, type?: JobEventType): void {
+    const index = this.subscriptions.findIndex(
+      (subscription) => subscription.listener === listener && subscription.type === type
+    );
+    if (index !== -1) {
+      this.subscriptions.splice(index, 1);
+    }
+  }
+
+  listenerCount(): number {
+    return this.subscriptions.length;
+  }
+}
+
+export const matchesEventFilter = (event: JobEvent, filter: JobEventFilter): boolean => {
+  return (
+    (!filter.jobIds?.length || filter.jobIds.indexOf(event.job.id) !== -1) &&
+    (!filter.statuses?.length || filter.statuses.indexOf(event.job.status) !== -1)
+  );
+};
+
+// Serializes an event in the text/event-stream format
+export const formatServerSentEvent = (event: JobEvent): string => {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+};
@@ -0,0 +1,158 @@
+import { Job, JOB_STATUS_TRANSITIONS } from "./job";
+import { Schedule } from "./schedule";
+import { isObject, validateCron, validateInterval, ValidationError } from "./validation";
+
+export const FIXTURE_VERSION = 1;
+
+// Snapshot of a server's jobs and schedules, as returned by
+// GET /api/_dev/export and accepted by POST /api/_dev/import
+export interface JobFixture {
+  version: number;
+  exportedAt?: string; // server clock time of the export, needed to rebase
+  jobs: Job[];
+  schedules: Schedule[];
+}
+
+const invalidFixture = (message: string) =>
+  new ValidationError(message, 400, "INVALID_FIXTURE");
+
+const isDate = (value: unknown): value is string => {
+  return typeof value === "string" && !isNaN(new Date(value).getTime());
+};
+
+const parseJob = (value: unknown, index: number): Job => {
+  if (!isObject(value) || typeof value.id !== "string" || value.id === "") {
+    throw invalidFixture(`jobs[${index}] must be an object with an 'id'`);
+  }
+  if (typeof value.status !== "string" || !JOB_STATUS_TRANSITIONS.hasOwnProperty(value.status)) {
+    throw invalidFixture(`jobs[${index}] has an unknown status '${value.status}'`);
+  }
+  if (!isDate(value.scheduledFor) || !isDate(value.createdAt)) {
+    throw invalidFixture(`jobs[${index}] needs valid 'scheduledFor' and 'createdAt' dates`);
+  }
+  if (value.nextAttemptAt !== undefined && !isDate(value.nextAttemptAt)) {
+    throw invalidFixture(`jobs[${index}] has an invalid 'nextAttemptAt' date`);
+  }
+  const attempts = Array.isArray(value.attempts) ? value.attempts : [];
+  attempts.forEach((attempt: unknown, attemptIndex) => {
+    if (!isObject(attempt) || !isDate(attempt.startedAt)) {
+      throw invalidFixture(
+        `jobs[${index}].attempts[${attemptIndex}] must be an object with a valid 'startedAt' date`
+      );
+    }
+  });
+
+  return {
+    ...value,
+    attemptCount: typeof value.attemptCount === "number" ? value.attemptCount : 0,
+    attempts,
+  } as Job;
+};
+
+const parseSchedule = (value: unknown, index: number): Schedule => {
+  if (!isObject(value) || typeof value.id !== "string" || value.id === "") {
+    throw invalidFixture(`schedules[${index}] must be an object with an 'id'`);
+  }
+  if (value.status !== "ACTIVE" && value.status !== "PAUSED") {
+    throw invalidFixture(`schedules[${index}] has an unknown status '${value.status}'`);
+  }
+  // Checked like POST /api/jobs/dispatch does, the scheduler relies on them
+  if (value.cron === undefined && value.every === undefined) {
+    throw invalidFixture(`schedules[${index}] needs a 'cron' or 'every' value`);
+  }
+  const field = value.cron !== undefined ? "cron" : "every";
+  try {
+    if (field === "cron") {
+      validateCron(value.cron);
+    } else {
+      validateInterval(value.every);
+    }
+  } catch (error) {
+    throw invalidFixture(
+      `schedules[${index}] has an invalid '${field}': ${(error as Error).message}`
+    );
+  }
+  if (!isDate(value.createdAt)) {
+    throw invalidFixture(`schedules[${index}] needs a valid 'createdAt' date`);
+  }
+  if (value.nextRunAt !== undefined && !isDate(value.nextRunAt)) {
+    throw invalidFixture(`schedules[${index}] has an invalid 'nextRunAt' date`);
+  }
+
+  return {
+    ...value,
+    runCount: typeof value.runCount === "number" ? value.runCount : 0,
+  } as Schedule;
+};
+
+// Checks an uploaded fixture. Only `jobs` is required, so hand-written
+// fixtures can leave out everything else.
+export const parseFixture = (input: unknown): JobFixture => {
+  if (!isObject(input) || !Array.isArray(input.jobs)) {
+    throw invalidFixture("Fixture must be an object with a 'jobs' array");
+  }
+  const { schedules = [], exportedAt } = input;
+  if (!Array.isArray(schedules)) {
+    throw invalidFixture("'schedules' must be an array");
+  }
+  if (exportedAt !== undefined && !isDate(exportedAt)) {
+    throw invalidFixture("'exportedAt' must be a valid date");
+  }
+
+  return {
+    version: FIXTURE_VERSION,
+    exportedAt,
+    jobs: input.jobs.map(parseJob),
+    schedules: schedules.map(parseSchedule),
+  };
+};
+
+const shift = (value: string | undefined, offset: number): string | undefined => {
+  return value === undefined
+    ? undefined
+    : new Date(new Date(value).getTime() + offset).toISOString();
+};
+
+// Moves every time in the fixture by the time passed since the export, so a
+// job that was due 5 minutes after the export is due 5 minutes from `now`
+export const rebaseFixture = (fixture: JobFixture, now: Date): JobFixture => {
+  if (!fixture.exportedAt) {
+    throw new ValidationError(
+      "Fixtures without 'exportedAt' cannot be rebased",
+      422,
+      "INVALID_FIXTURE"
+    );
+  }
+
+  const offset = now.getTime() - new Date(fixture.exportedAt).getTime();
+
+  return {
+    ...fixture,
+    exportedAt: now.toISOString(),
+    jobs: fixture.jobs.map((job) => {
+      const rebased: Job = {
+        ...job,
+        scheduledFor: shift(job.scheduledFor, offset)!,
+        createdAt: shift(job.createdAt, offset)!,
+        attempts: job.attempts.map((attempt) => ({
+          ...attempt,
+          startedAt: shift(attempt.startedAt, offset)!,
+        })),
+      };
+      if (job.nextAttemptAt !== undefined) {
+        rebased.nextAttemptAt = shift(job.nextAttemptAt, offset);
+      }
+      return rebased;
+    }),
+    schedules: fixture.schedules.map((schedule) => {
+      const rebased: Schedule = {
+        ...schedule,
+        createdAt: shift(schedule.createdAt, offset)!,
+      };
+      if (schedule.nextRunAt !== undefined) {
+        rebased.nextRunAt = shift(schedule.nextRunAt, offset);
+      }
+      return rebased;
+    }),
+  };
+};
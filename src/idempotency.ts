@@ -0,0 +1,118 @@
+import crypto from "crypto";
+import { ValidationError } from "./validation";
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+// Seconds an idempotency key is remembered after its first use
+export const DEFAULT_IDEMPOTENCY_WINDOW = 24 * 60 * 60;
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+interface IdempotencyRecord {
+  jobId: string;
+  fingerprint: string;
+  expiresAt: number; // milliseconds since epoch, in server clock time
+}
+
+// Remembers which job each idempotency key created, so a repeated dispatch
+// request returns that job instead of creating a new one. Keys are only kept
+// in memory.
+export class IdempotencyCache {
+  private records = new Map<string, IdempotencyRecord>();
+  private window: number;
+
+  constructor(window: number = DEFAULT_IDEMPOTENCY_WINDOW) {
+    this.window = window;
+  }
+
+  // Returns the job id recorded for the key, or undefined for a new (or
+  // expired) key. Throws when the key was used for a different request.
+  lookup(key: string, request: unknown, now: number): string | undefined {
+    this.prune(now);
+
+    const record = this.records.get(key);
+    if (!record) {
+      return undefined;
+    }
+
+    if (record.fingerprint !== fingerprint(request)) {
+      throw new ValidationError(
+        `Idempotency key '${key}' was already used with a different request body`,
+        409,
+        "IDEMPOTENCY_KEY_REUSED"
+      );
+    }
+
+    return record.jobId;
+  }
+
+  remember(key: string, request: unknown, jobId: string, now: number): void {
+    this.records.set(key, {
+      jobId,
+      fingerprint: fingerprint(request),
+      expiresAt: now + this.window * 1000,
+    });
+  }
+
+  private prune(now: number): void {
+    this.records.forEach((record, key) => {
+      if (record.expiresAt <= now) {
+        this.records.delete(key);
+      }
+    });
+  }
+}
+
+// Picks the key from the Idempotency-Key header or the `idempotencyKey` body
+// field. Both may be sent, as long as they agree.
+export const resolveIdempotencyKey = (
+  header: unknown,
+  field: unknown
+): string | undefined => {
+  if (header !== undefined && field !== undefined && header !== field) {
+    throw new ValidationError(
+      `The ${IDEMPOTENCY_KEY_HEADER} header and the 'idempotencyKey' field do not match`,
+      400,
+      "INVALID_IDEMPOTENCY_KEY"
+    );
+  }
+
+  const key = header ?? field;
+  if (key === undefined) {
+    return undefined;
+  }
+
+  if (typeof key !== "string" || key === "" || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    throw new ValidationError(
+      `Idempotency key must be a string of 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+      400,
+      "INVALID_IDEMPOTENCY_KEY"
+    );
+  }
+
+  return key;
+};
+
+// Hash of the request with sorted object keys, so key order does not matter
+const fingerprint = (request: unknown): string => {
+  return crypto.createHash("sha256").update(stableStringify(request)).digest("hex");
+};
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`
+      );
+    return `{${entries.join(",")}}`;
+  }
+
+  return JSON.stringify(value) ?? "null";
+};
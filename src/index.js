@@ -1,11 +1,43 @@
 #!/usr/bin/env node
+import fs from "fs";
 import yargs from "yargs";
 import {hideBin} from "yargs/helpers";
 
 import {Server} from "./server";
+import {parseStatusCodes, Receiver} from "./receiver";
+import {describeChaos, parseLatencyRange, validateChaosConfig} from "./chaos";
+import {FileJobStore} from "./store";
+import {apiRequest, describeJobEvent, formatTable, readPayload, resolveServerScheduledFor, streamEvents, waitForJob} from "./client";
+import {LOG_FORMATS, LOG_LEVELS} from "./logger";
+import {parseForwardOptions} from "./routing";
+import {parseDuration} from "./time";
+import {CONFIG_FILE_NAME, ENV_PREFIX, loadConfigFile, PACKAGE_JSON_KEY} from "./config";
 
 const BIN_NAME = 'dispatchedjs';
 
+const urlOption = {
+    type: "string",
+    default: "http://localhost:3100",
+    description: "Base URL of the dispatched server",
+};
+
+const apiKeyOption = {
+    type: "string",
+    description: "API key of the dispatched server, if it was started with one",
+};
+
+// Turns chaos options into the settings the server accepts, leaving out the
+// ones that were not given
+const chaosOptions = (options) => {
+    const settings = {};
+    for (const [key, value] of Object.entries(options)) {
+        if (value !== undefined) {
+            settings[key] = key === 'latency' ? parseLatencyRange(value) : value;
+        }
+    }
+    return validateChaosConfig(settings);
+};
+
 yargs(hideBin(process.argv))
     .command(
         "listen",
@@ -19,9 +51,10 @@ yargs(hideBin(process.argv))
             },
             forward: {
                 type: "string",
+                array: true,
                 demandOption: true,
                 description:
-                    "URL to forward webhooks to (e.g. http://localhost:3000/webhook)",
+                    "URL to forward webhooks to (e.g. http://localhost:3000/webhook), repeat as 'queue=url' to route jobs by queue or topic",
             },
             port: {
                 type: "number",
@@ -33,15 +66,296 @@ yargs(hideBin(process.argv))
                 default: 30,
                 description: "Seconds to add to scheduled job times before dispatch",
             },
+            maxAttempts: {
+                type: "number",
+                default: 1,
+                description: "Delivery attempts per job before it is marked FAILED",
+            },
+            retryDelay: {
+                type: "number",
+                default: 5,
+                description: "Seconds to wait before the first retry, doubled for each further retry",
+            },
+            maxRetryDelay: {
+                type: "number",
+                default: 300,
+                description: "Upper bound in seconds for the retry backoff",
+            },
+            store: {
+                type: "string",
+                description:
+                    "JSON file to persist jobs in, so they survive a restart (e.g. ./.dispatched/jobs.json)",
+            },
+            signing: {
+                type: "string",
+                choices: ["none", "hmac-sha256"],
+                default: "none",
+                description: "Also sign webhooks with a timestamped signature header",
+            },
+            apiKey: {
+                type: "string",
+                description: "Require this API key as a bearer token on /api/jobs requests",
+            },
+            logLevel: {
+                type: "string",
+                choices: LOG_LEVELS,
+                default: "info",
+                description: "Minimum level of the log events to print",
+            },
+            logFormat: {
+                type: "string",
+                choices: LOG_FORMATS,
+                default: "text",
+                description: "Print logs as text or as one JSON event per line",
+            },
+            concurrency: {
+                type: "number",
+                default: 0,
+                description: "Maximum webhook deliveries in flight at once (0 for unlimited)",
+            },
+            rateLimit: {
+                type: "number",
+                default: 0,
+                description: "Maximum webhook deliveries started per second (0 for unlimited)",
+            },
+            shutdownTimeout: {
+                type: "number",
+                default: 10,
+                description: "Seconds to wait for in-flight deliveries when the server is stopped",
+            },
+            idempotencyWindow: {
+                type: "number",
+                default: 86400,
+                description: "Seconds an Idempotency-Key is remembered for repeated dispatch requests",
+            },
+            chaosDropRate: {
+                type: "number",
+                description: "Chaos mode: share of deliveries (0-1) that are dropped instead of sent",
+            },
+            chaosDuplicateRate: {
+                type: "number",
+                description: "Chaos mode: share of deliveries (0-1) that are sent twice",
+            },
+            chaosLatency: {
+                type: "string",
+                description: "Chaos mode: delay before each delivery, in ms or as a range like '100-2000'",
+            },
+            chaosOutOfOrder: {
+                type: "boolean",
+                description: "Chaos mode: dispatch due jobs in random order",
+            },
+            chaosApiErrorRate: {
+                type: "number",
+                description: "Chaos mode: share of dispatch requests (0-1) answered with a 503",
+            },
         },
         (argv) => {
+            let forwardOptions;
+            let chaos;
+            let store;
+            try {
+                forwardOptions = parseForwardOptions(argv.forward);
+                chaos = chaosOptions({
+                    dropRate: argv.chaosDropRate,
+                    duplicateRate: argv.chaosDuplicateRate,
+                    latency: argv.chaosLatency,
+                    outOfOrder: argv.chaosOutOfOrder,
+                    apiErrorRate: argv.chaosApiErrorRate,
+                });
+                store = argv.store ? new FileJobStore(argv.store) : undefined;
+            } catch (error) {
+                console.error('Error starting server:', error.message);
+                process.exit(1);
+            }
+
+            const {forwardUrl, routes} = forwardOptions;
             const server = new Server({
                 webhookSecret: argv.secret,
-                forwardUrl: argv.forward,
+                forwardUrl,
+                routes,
                 port: argv.port,
                 scheduledDelay: argv.scheduledDelay,
+                retry: {
+                    maxAttempts: argv.maxAttempts,
+                    initialDelay: argv.retryDelay,
+                    maxDelay: argv.maxRetryDelay,
+                },
+                store,
+                signing: argv.signing === "none" ? undefined : argv.signing,
+                apiKey: argv.apiKey,
+                logLevel: argv.logLevel,
+                logFormat: argv.logFormat,
+                idempotencyWindow: argv.idempotencyWindow,
+                concurrency: argv.concurrency,
+                rateLimit: argv.rateLimit,
+                chaos,
+            });
+            server.listen().catch((error) => {
+                console.error('Error starting server:', error.message);
+                process.exit(1);
+            });
+
+            // Finish in-flight deliveries before exiting. A second signal
+            // kills the process right away.
+            const shutdown = (signal) => {
+                server.stop({timeout: argv.shutdownTimeout * 1000, signal}).then(() => process.exit(0));
+            };
+            process.once('SIGINT', shutdown);
+            process.once('SIGTERM', shutdown);
+        }
+    )
+    .command(
+        "receive",
+        "Run a local webhook receiver that checks and prints the deliveries of the server",
+        {
+            secret: {
+                type: "string",
+                demandOption: true,
+                description: "Secret the server was started with, expected as 'Authorization: Bearer <secret>'",
+            },
+            port: {
+                type: "number",
+                default: 3000,
+                description: "Port to receive webhooks on",
+            },
+            status: {
+                type: "string",
+                default: "200",
+                description: "Status code to answer with, or one per delivery (e.g. '500,500,200', the last one repeats)",
+            },
+            delay: {
+                type: "string",
+                default: "0",
+                description: "Time to wait before answering, in milliseconds or like '2s'",
+            },
+            logLevel: {
+                type: "string",
+                choices: LOG_LEVELS,
+                default: "info",
+                description: "Minimum level of the log events to print",
+            },
+            logFormat: {
+                type: "string",
+                choices: LOG_FORMATS,
+                default: "text",
+                description: "Print logs as text or as one JSON event per line",
+            },
+        },
+        (argv) => {
+            let statuses;
+            let delay;
+            try {
+                statuses = parseStatusCodes(argv.status);
+                delay = parseDuration(argv.delay) ?? Number(argv.delay);
+                if (!(delay >= 0)) {
+                    throw new Error(`Invalid delay '${argv.delay}', expected milliseconds or a duration like '2s'`);
+                }
+            } catch (error) {
+                console.error('Error starting receiver:', error.message);
+                process.exit(1);
+            }
+
+            const receiver = new Receiver({
+                port: argv.port,
+                secret: argv.secret,
+                statuses,
+                delay,
+                logLevel: argv.logLevel,
+                logFormat: argv.logFormat,
             });
-            server.listen();
+            receiver.listen().catch((error) => {
+                console.error('Error starting receiver:', error.message);
+                process.exit(1);
+            });
+
+            const shutdown = () => {
+                receiver.stop().then(() => process.exit(0));
+            };
+            process.once('SIGINT', shutdown);
+            process.once('SIGTERM', shutdown);
+        }
+    )
+    .command(
+        "send [payload]",
+        "Create a job on the local server",
+        (yargs) => yargs
+            .positional("payload", {
+                type: "string",
+                description: "Job payload as JSON, read from stdin when left out or '-'",
+            })
+            .options({
+                file: {
+                    type: "string",
+                    description: "Read the payload from a JSON file",
+                },
+                scheduledFor: {
+                    type: "string",
+                    description: "When to run the job (ISO string or relative like '5m', '1h'), right away by default",
+                },
+                queue: {
+                    type: "string",
+                    description: "Queue of the job, used to pick the forward URL",
+                },
+                topic: {
+                    type: "string",
+                    description: "Topic of the job, used to pick the forward URL",
+                },
+                idempotencyKey: {
+                    type: "string",
+                    description: "Send the job with this Idempotency-Key",
+                },
+                wait: {
+                    type: "boolean",
+                    default: false,
+                    description: "Wait until the job is COMPLETED, FAILED or CANCELLED, exits with 1 unless it completed",
+                },
+                timeout: {
+                    type: "number",
+                    default: 0,
+                    description: "Seconds to wait with --wait before giving up, 0 waits forever",
+                },
+                url: urlOption,
+                apiKey: apiKeyOption,
+            }),
+        async (argv) => {
+            try {
+                const body = {payload: await readPayload({payload: argv.payload, file: argv.file})};
+                for (const key of ["queue", "topic", "idempotencyKey"]) {
+                    if (argv[key] !== undefined) {
+                        body[key] = argv[key];
+                    }
+                }
+                if (argv.scheduledFor !== undefined) {
+                    body.scheduledFor = await resolveServerScheduledFor(argv.url, argv.scheduledFor, argv.apiKey);
+                }
+
+                const job = await apiRequest(argv.url, '/api/jobs/dispatch', {
+                    method: 'POST',
+                    body,
+                    apiKey: argv.apiKey,
+                });
+                console.log('Job created:');
+                console.log(JSON.stringify(job, null, 2));
+
+                if (!argv.wait) {
+                    return;
+                }
+
+                console.log(`Waiting for job ${job.id}...`);
+                const finished = await waitForJob(argv.url, job.id, {
+                    apiKey: argv.apiKey,
+                    timeout: argv.timeout * 1000,
+                });
+                console.log(`Job ${finished.id} ${finished.status} after ${finished.attemptCount} attempt(s):`);
+                console.log(JSON.stringify(finished, null, 2));
+
+                if (finished.status !== 'COMPLETED') {
+                    process.exit(1);
+                }
+            } catch (error) {
+                console.error('Error sending job:', error.message);
+                process.exit(1);
+            }
         }
     )
     .command(
@@ -53,56 +367,485 @@ yargs(hideBin(process.argv))
                 demandOption: true,
                 description: "New scheduled time (ISO string or relative like '5m', '1h')",
             },
-            url: {
+            url: urlOption,
+            apiKey: apiKeyOption,
+        },
+        async (argv) => {
+            try {
+                // Handle relative time formats like '5m', '1h', '30s'
+                const scheduledFor = await resolveServerScheduledFor(argv.url, argv.scheduledFor, argv.apiKey);
+
+                const job = await apiRequest(argv.url, `/api/jobs/${argv.jobId}`, {
+                    method: 'PATCH',
+                    body: { scheduledFor },
+                    apiKey: argv.apiKey,
+                });
+                console.log('Job updated successfully:');
+                console.log(JSON.stringify(job, null, 2));
+            } catch (error) {
+                console.error('Error updating job:', error.message);
+                process.exit(1);
+            }
+        }
+    )
+    .command(
+        "get <jobId>",
+        "Show a job, including its attempt history",
+        {
+            url: urlOption,
+            apiKey: apiKeyOption,
+        },
+        async (argv) => {
+            try {
+                const job = await apiRequest(argv.url, `/api/jobs/${argv.jobId}`, {
+                    apiKey: argv.apiKey,
+                });
+                console.log(JSON.stringify(job, null, 2));
+            } catch (error) {
+                console.error('Error getting job:', error.message);
+                process.exit(1);
+            }
+        }
+    )
+    .command(
+        "cancel <jobId>",
+        "Cancel a QUEUED job",
+        {
+            url: urlOption,
+            apiKey: apiKeyOption,
+        },
+        async (argv) => {
+            try {
+                const job = await apiRequest(argv.url, `/api/jobs/${argv.jobId}`, {
+                    method: 'DELETE',
+                    apiKey: argv.apiKey,
+                });
+                console.log('Job cancelled successfully:');
+                console.log(JSON.stringify(job, null, 2));
+            } catch (error) {
+                console.error('Error cancelling job:', error.message);
+                process.exit(1);
+            }
+        }
+    )
+    .command(
+        "retry <jobId>",
+        "Dispatch a FAILED or COMPLETED job again",
+        {
+            url: urlOption,
+            apiKey: apiKeyOption,
+        },
+        async (argv) => {
+            try {
+                const job = await apiRequest(argv.url, `/api/jobs/${argv.jobId}/retry`, {
+                    method: 'POST',
+                    apiKey: argv.apiKey,
+                });
+                console.log('Job queued for retry:');
+                console.log(JSON.stringify(job, null, 2));
+            } catch (error) {
+                console.error('Error retrying job:', error.message);
+                process.exit(1);
+            }
+        }
+    )
+    .command(
+        "list",
+        "List the jobs held by the local server",
+        {
+            status: {
+                type: "string",
+                description: "Only show jobs with these statuses (comma separated, e.g. 'QUEUED,FAILED')",
+            },
+            createdAfter: {
+                type: "string",
+                description: "Only show jobs created at or after this time (ISO string)",
+            },
+            createdBefore: {
+                type: "string",
+                description: "Only show jobs created at or before this time (ISO string)",
+            },
+            scheduledAfter: {
+                type: "string",
+                description: "Only show jobs scheduled at or after this time (ISO string)",
+            },
+            scheduledBefore: {
                 type: "string",
-                default: "http://localhost:3100",
-                description: "Base URL of the dispatched server",
+                description: "Only show jobs scheduled at or before this time (ISO string)",
             },
+            limit: {
+                type: "number",
+                default: 50,
+                description: "Maximum number of jobs to show",
+            },
+            offset: {
+                type: "number",
+                default: 0,
+                description: "Number of jobs to skip",
+            },
+            json: {
+                type: "boolean",
+                default: false,
+                description: "Print the raw JSON response instead of a table",
+            },
+            url: urlOption,
+            apiKey: apiKeyOption,
         },
         async (argv) => {
             try {
-                let scheduledFor = argv.scheduledFor;
+                const query = new URLSearchParams();
+                for (const key of ["status", "createdAfter", "createdBefore", "scheduledAfter", "scheduledBefore", "limit", "offset"]) {
+                    if (argv[key] !== undefined) {
+                        query.set(key, String(argv[key]));
+                    }
+                }
 
-                // Handle relative time formats like '5m', '1h', '30s'
-                if (scheduledFor.match(/^\d+[smhd]$/)) {
-                    const value = parseInt(scheduledFor.slice(0, -1));
-                    const unit = scheduledFor.slice(-1);
-                    let milliseconds = 0;
-
-                    switch (unit) {
-                        case 's': milliseconds = value * 1000; break;
-                        case 'm': milliseconds = value * 60 * 1000; break;
-                        case 'h': milliseconds = value * 60 * 60 * 1000; break;
-                        case 'd': milliseconds = value * 24 * 60 * 60 * 1000; break;
+                const result = await apiRequest(argv.url, `/api/jobs?${query}`, {
+                    apiKey: argv.apiKey,
+                });
+
+                if (argv.json) {
+                    console.log(JSON.stringify(result, null, 2));
+                    return;
+                }
+
+                if (result.jobs.length === 0) {
+                    console.log('No jobs found');
+                    return;
+                }
+
+                console.log(formatTable(
+                    result.jobs.map((job) => ({...job, attempts: job.attemptCount ?? 0})),
+                    [
+                        {key: 'id', label: 'ID'},
+                        {key: 'status', label: 'STATUS'},
+                        {key: 'scheduledFor', label: 'SCHEDULED FOR'},
+                        {key: 'createdAt', label: 'CREATED AT'},
+                        {key: 'attempts', label: 'ATTEMPTS'},
+                    ]
+                ));
+                console.log(`\nShowing ${result.jobs.length} of ${result.total} job(s)`);
+            } catch (error) {
+                console.error('Error listing jobs:', error.message);
+                process.exit(1);
+            }
+        }
+    )
+    .command(
+        "schedules [action] [scheduleId]",
+        "List, pause, resume or delete the recurring jobs of the local server",
+        (yargs) => yargs
+            .positional("action", {
+                type: "string",
+                choices: ["list", "pause", "resume", "delete"],
+                default: "list",
+                description: "What to do with the schedules",
+            })
+            .positional("scheduleId", {
+                type: "string",
+                description: "Schedule to pause, resume or delete",
+            })
+            .options({
+                url: urlOption,
+                apiKey: apiKeyOption,
+            }),
+        async (argv) => {
+            try {
+                if (argv.action === 'list') {
+                    const {schedules} = await apiRequest(argv.url, '/api/schedules', {
+                        apiKey: argv.apiKey,
+                    });
+
+                    if (schedules.length === 0) {
+                        console.log('No schedules found');
+                        return;
                     }
 
-                    scheduledFor = new Date(Date.now() + milliseconds).toISOString();
+                    console.log(formatTable(
+                        schedules.map((schedule) => ({
+                            ...schedule,
+                            schedule: schedule.cron ?? `every ${schedule.every}`,
+                            nextRunAt: schedule.nextRunAt ?? '-',
+                        })),
+                        [
+                            {key: 'id', label: 'ID'},
+                            {key: 'status', label: 'STATUS'},
+                            {key: 'schedule', label: 'SCHEDULE'},
+                            {key: 'nextRunAt', label: 'NEXT RUN'},
+                            {key: 'runCount', label: 'RUNS'},
+                        ]
+                    ));
+                    return;
                 }
 
-                const response = await fetch(`${argv.url}/api/jobs/${argv.jobId}`, {
-                    method: 'PATCH',
-                    headers: {
-                        'Content-Type': 'application/json',
-                    },
-                    body: JSON.stringify({ scheduledFor }),
+                if (!argv.scheduleId) {
+                    throw new Error(`Specify the schedule to ${argv.action}`);
+                }
+
+                const schedule = await apiRequest(
+                    argv.url,
+                    argv.action === 'delete'
+                        ? `/api/schedules/${argv.scheduleId}`
+                        : `/api/schedules/${argv.scheduleId}/${argv.action}`,
+                    {
+                        method: argv.action === 'delete' ? 'DELETE' : 'POST',
+                        apiKey: argv.apiKey,
+                    }
+                );
+                console.log(`Schedule ${argv.action === 'delete' ? 'deleted' : `${argv.action}d`} successfully:`);
+                console.log(JSON.stringify(schedule, null, 2));
+            } catch (error) {
+                console.error('Error managing schedules:', error.message);
+                process.exit(1);
+            }
+        }
+    )
+    .command(
+        "tail",
+        "Follow the job events of the local server as they happen",
+        {
+            jobId: {
+                type: "string",
+                description: "Only show events of these jobs (comma separated)",
+            },
+            status: {
+                type: "string",
+                description: "Only show events that leave a job in these statuses (comma separated, e.g. 'FAILED,QUEUED')",
+            },
+            json: {
+                type: "boolean",
+                default: false,
+                description: "Print every event as a JSON line",
+            },
+            url: urlOption,
+            apiKey: apiKeyOption,
+        },
+        async (argv) => {
+            try {
+                const query = new URLSearchParams();
+                for (const key of ["jobId", "status"]) {
+                    if (argv[key] !== undefined) {
+                        query.set(key, String(argv[key]));
+                    }
+                }
+
+                await streamEvents(argv.url, `/api/events?${query}`, {apiKey: argv.apiKey}, (event) => {
+                    console.log(argv.json ? event.data : describeJobEvent(JSON.parse(event.data)));
                 });
 
-                if (!response.ok) {
-                    const error = await response.json();
-                    const errorMessage = error.message || error.error || response.statusText;
-                    console.error('Error updating job:', errorMessage);
-                    process.exit(1);
+                console.error('The server closed the event stream');
+                process.exit(1);
+            } catch (error) {
+                console.error('Error following events:', error.message);
+                process.exit(1);
+            }
+        }
+    )
+    .command(
+        "clock <action> [value]",
+        "Show or move the clock of the local server to fast-forward scheduled jobs",
+        (yargs) => yargs
+            .positional("action", {
+                type: "string",
+                choices: ["show", "advance", "set", "reset"],
+                description: "What to do with the clock",
+            })
+            .positional("value", {
+                type: "string",
+                description: "Duration to advance by (e.g. '2h', '3d') or the time to set (ISO string)",
+            })
+            .options({
+                url: urlOption,
+                apiKey: apiKeyOption,
+            }),
+        async (argv) => {
+            try {
+                let clock;
+
+                switch (argv.action) {
+                    case 'show':
+                        clock = await apiRequest(argv.url, '/api/_dev/clock', {
+                            apiKey: argv.apiKey,
+                        });
+                        break;
+                    case 'advance':
+                        if (!argv.value || parseDuration(argv.value) === undefined) {
+                            throw new Error("Specify a duration to advance by, like '30s', '5m', '2h' or '3d'");
+                        }
+                        clock = await apiRequest(argv.url, '/api/_dev/clock/advance', {
+                            method: 'POST',
+                            body: { by: argv.value },
+                            apiKey: argv.apiKey,
+                        });
+                        break;
+                    case 'set':
+                        if (!argv.value) {
+                            throw new Error('Specify the time to set the clock to');
+                        }
+                        clock = await apiRequest(argv.url, '/api/_dev/clock/set', {
+                            method: 'POST',
+                            body: { time: argv.value },
+                            apiKey: argv.apiKey,
+                        });
+                        break;
+                    case 'reset':
+                        clock = await apiRequest(argv.url, '/api/_dev/clock/reset', {
+                            method: 'POST',
+                            apiKey: argv.apiKey,
+                        });
+                        break;
                 }
 
-                const job = await response.json();
-                console.log('Job updated successfully:');
-                console.log(JSON.stringify(job, null, 2));
+                console.log(`Server time: ${clock.now} (offset ${clock.offset}ms)`);
             } catch (error) {
-                console.error('Error updating job:', error.message);
+                console.error('Error updating clock:', error.message);
+                process.exit(1);
+            }
+        }
+    )
+    .command(
+        "chaos <action>",
+        "Show or change the faults the local server injects",
+        (yargs) => yargs
+            .positional("action", {
+                type: "string",
+                choices: ["show", "set", "reset"],
+                description: "What to do with the chaos settings",
+            })
+            .options({
+                dropRate: {
+                    type: "number",
+                    description: "Share of deliveries (0-1) that are dropped instead of sent",
+                },
+                duplicateRate: {
+                    type: "number",
+                    description: "Share of deliveries (0-1) that are sent twice",
+                },
+                latency: {
+                    type: "string",
+                    description: "Delay before each delivery, in ms or as a range like '100-2000'",
+                },
+                outOfOrder: {
+                    type: "boolean",
+                    description: "Dispatch due jobs in random order",
+                },
+                apiErrorRate: {
+                    type: "number",
+                    description: "Share of dispatch requests (0-1) answered with a 503",
+                },
+                url: urlOption,
+                apiKey: apiKeyOption,
+            }),
+        async (argv) => {
+            try {
+                let chaos;
+
+                switch (argv.action) {
+                    case 'show':
+                        chaos = await apiRequest(argv.url, '/api/_dev/chaos', {
+                            apiKey: argv.apiKey,
+                        });
+                        break;
+                    case 'set':
+                        chaos = await apiRequest(argv.url, '/api/_dev/chaos', {
+                            method: 'POST',
+                            body: chaosOptions({
+                                dropRate: argv.dropRate,
+                                duplicateRate: argv.duplicateRate,
+                                latency: argv.latency,
+                                outOfOrder: argv.outOfOrder,
+                                apiErrorRate: argv.apiErrorRate,
+                            }),
+                            apiKey: argv.apiKey,
+                        });
+                        break;
+                    case 'reset':
+                        chaos = await apiRequest(argv.url, '/api/_dev/chaos/reset', {
+                            method: 'POST',
+                            apiKey: argv.apiKey,
+                        });
+                        break;
+                }
+
+                console.log(`Chaos mode: ${describeChaos(chaos)}`);
+            } catch (error) {
+                console.error('Error updating chaos mode:', error.message);
+                process.exit(1);
+            }
+        }
+    )
+    .command(
+        "export",
+        "Print the jobs and schedules of the local server as a JSON fixture",
+        {
+            url: urlOption,
+            apiKey: apiKeyOption,
+        },
+        async (argv) => {
+            try {
+                const fixture = await apiRequest(argv.url, '/api/_dev/export', {
+                    apiKey: argv.apiKey,
+                });
+
+                console.log(JSON.stringify(fixture, null, 2));
+            } catch (error) {
+                console.error('Error exporting jobs:', error.message);
                 process.exit(1);
             }
         }
     )
+    .command(
+        "import <file>",
+        "Load jobs and schedules from a JSON fixture into the local server",
+        (yargs) => yargs
+            .positional("file", {
+                type: "string",
+                description: "Fixture file written by the export command",
+            })
+            .options({
+                replace: {
+                    type: "boolean",
+                    default: false,
+                    description: "Remove the server's current jobs and schedules first",
+                },
+                rebase: {
+                    type: "boolean",
+                    default: false,
+                    description: "Move the fixture's times by the time passed since it was exported, so due times stay relative to now",
+                },
+                url: urlOption,
+                apiKey: apiKeyOption,
+            }),
+        async (argv) => {
+            try {
+                const fixture = JSON.parse(fs.readFileSync(argv.file, 'utf8'));
+                const query = new URLSearchParams({
+                    replace: String(argv.replace),
+                    rebase: String(argv.rebase),
+                });
+
+                const result = await apiRequest(argv.url, `/api/_dev/import?${query}`, {
+                    method: 'POST',
+                    body: fixture,
+                    apiKey: argv.apiKey,
+                });
+
+                console.log(`Imported ${result.jobs} job(s) and ${result.schedules} schedule(s)`);
+            } catch (error) {
+                console.error('Error importing jobs:', error.message);
+                process.exit(1);
+            }
+        }
+    )
+    .option("config", {
+        type: "string",
+        default: CONFIG_FILE_NAME,
+        global: true,
+        description: "JSON file with default option values",
+    })
+    .config("config", (configPath) => loadConfigFile(configPath))
+    .env(ENV_PREFIX)
+    .pkgConf(PACKAGE_JSON_KEY, process.cwd())
     .demandCommand(1, 'You need at least one command before moving on')
     .scriptName(BIN_NAME)
     .usage(
@@ -120,6 +863,42 @@ yargs(hideBin(process.argv))
         `${BIN_NAME} listen --secret "abc123" --forward "http://localhost:3000/webhook" --scheduledDelay 10`,
         "Add 10 seconds delay to scheduled jobs"
     )
+    .example(
+        `${BIN_NAME} listen --secret "abc123" --forward "http://localhost:3000/webhook" --maxAttempts 3`,
+        "Retry failed deliveries up to 3 attempts"
+    )
+    .example(
+        `${BIN_NAME} listen --secret "abc123" --forward "http://localhost:3000/webhook" --store ./.dispatched/jobs.json`,
+        "Keep jobs across restarts"
+    )
+    .example(
+        `${BIN_NAME} listen --secret "abc123" --forward "http://localhost:3000/webhook" --signing hmac-sha256`,
+        "Sign webhooks with HMAC-SHA256"
+    )
+    .example(
+        `${BIN_NAME} listen --secret "abc123" --forward "http://localhost:3000/webhook" --forward "emails=http://localhost:3001/jobs"`,
+        "Route jobs of the 'emails' queue to another worker"
+    )
+    .example(
+        `${BIN_NAME} listen --secret "abc123" --forward "http://localhost:3000/webhook" --logFormat json --logLevel debug`,
+        "Print every log event as a JSON line"
+    )
+    .example(
+        `${BIN_NAME} listen --secret "abc123" --forward "http://localhost:3000/webhook" --concurrency 5 --rateLimit 10`,
+        "Deliver at most 5 webhooks at once and 10 per second"
+    )
+    .example(
+        `${BIN_NAME} receive --port 3000 --secret "abc123" --status 500,200`,
+        "Receive webhooks locally, failing the first delivery"
+    )
+    .example(
+        `${BIN_NAME} send '{"userId": 123}' --scheduledFor 5m`,
+        "Create a job that runs in 5 minutes"
+    )
+    .example(
+        `cat payload.json | ${BIN_NAME} send --wait`,
+        "Create a job from stdin and wait for its delivery"
+    )
     .example(
         `${BIN_NAME} update job123 --scheduledFor "2024-12-31T23:59:59Z"`,
         "Update job with specific time"
@@ -128,6 +907,54 @@ yargs(hideBin(process.argv))
         `${BIN_NAME} update job123 --scheduledFor "5m"`,
         "Update job to run in 5 minutes"
     )
+    .example(
+        `${BIN_NAME} get job123`,
+        "Show a job and its attempts"
+    )
+    .example(
+        `${BIN_NAME} cancel job123`,
+        "Cancel a queued job"
+    )
+    .example(
+        `${BIN_NAME} retry job123`,
+        "Dispatch a failed job again"
+    )
+    .example(
+        `${BIN_NAME} tail --status FAILED`,
+        "Follow failed deliveries as they happen"
+    )
+    .example(
+        `${BIN_NAME} clock advance 2h`,
+        "Fast-forward the server clock by 2 hours"
+    )
+    .example(
+        `${BIN_NAME} listen --secret "abc123" --forward "http://localhost:3000/webhook" --chaosDropRate 0.1 --chaosLatency 100-2000`,
+        "Drop 10% of deliveries and delay the others by up to 2 seconds"
+    )
+    .example(
+        `${BIN_NAME} chaos set --duplicateRate 0.5`,
+        "Deliver half of the jobs twice from now on"
+    )
+    .example(
+        `${BIN_NAME} export > jobs.json`,
+        "Save the server's jobs as a fixture"
+    )
+    .example(
+        `${BIN_NAME} import jobs.json --replace --rebase`,
+        "Restore a fixture with its times shifted to now"
+    )
+    .example(
+        `${BIN_NAME} list --status QUEUED`,
+        "List queued jobs"
+    )
+    .example(
+        `${BIN_NAME} schedules pause sched123`,
+        "Pause a recurring job"
+    )
+    .example(
+        `DISPATCHED_SECRET=abc123 DISPATCHED_FORWARD=http://localhost:3000/webhook ${BIN_NAME} listen`,
+        "Read options from the environment"
+    )
     .describe("help", "Show help")
     .describe("version", "Show version number")
     .epilog(
@@ -0,0 +1,96 @@
+import { RetryPolicy } from "./retry";
+
+export type JobStatus =
+  | "QUEUED"
+  | "DISPATCHED"
+  | "COMPLETED"
+  | "FAILED"
+  | "CANCELLED";
+
+// One delivery of a job's webhook
+export interface Attempt {
+  attemptId: string;
+  attemptNumber: number;
+  startedAt: string;
+  url: string | null; // null when no forward URL matched the job
+  duration: number; // milliseconds
+  statusCode: number | null; // null when the request could not be sent
+  responseBody?: string; // truncated
+  error?: string; // network error message
+}
+
+export interface Job<TPayload = unknown> {
+  id: string;
+  status: JobStatus;
+  scheduledFor: string;
+  payload: TPayload;
+  createdAt: string;
+  attemptCount: number;
+  baseAttemptCount?: number; // attempts made before the last manual retry, outside the retry budget
+  attempts: Attempt[];
+  queue?: string;
+  topic?: string;
+  retry?: Partial<RetryPolicy>;
+  nextAttemptAt?: string; // set while a failed job waits for its next attempt
+  scheduleId?: string; // set on the runs of a recurring schedule
+}
+
+// Body of POST /api/jobs/dispatch
+export interface DispatchRequest<TPayload = unknown> {
+  payload?: TPayload;
+  scheduledFor?: string;
+  queue?: string;
+  topic?: string;
+  retry?: Partial<RetryPolicy>;
+  idempotencyKey?: string; // alternative to the Idempotency-Key header
+  cron?: string; // makes the job recurring, e.g. "0 3 * * *"
+  every?: string; // makes the job recurring at an interval, e.g. "15m"
+}
+
+// Body of the webhook sent to the forward URL for every attempt
+export interface WebhookBody<TPayload = unknown> {
+  jobId: string;
+  attemptId: string;
+  attemptNumber: number;
+  status: "DISPATCHED";
+  payload: TPayload;
+}
+
+// Every status change a job can go through. DISPATCHED jobs go back to
+// QUEUED when a failed attempt is retried, finished jobs when they are
+// retried by hand.
+export const JOB_STATUS_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  QUEUED: ["DISPATCHED", "CANCELLED"],
+  DISPATCHED: ["COMPLETED", "FAILED", "QUEUED"],
+  COMPLETED: ["QUEUED"],
+  FAILED: ["QUEUED"],
+  CANCELLED: [],
+};
+
+// Statuses a job does not leave without a retry request
+export const FINAL_JOB_STATUSES: JobStatus[] = ["COMPLETED", "FAILED", "CANCELLED"];
+
+export class InvalidTransitionError extends Error {
+  constructor(jobId: string, from: JobStatus, to: JobStatus) {
+    super(`Job ${jobId} cannot go from ${from} to ${to}`);
+    this.name = "InvalidTransitionError";
+    Object.setPrototypeOf(this, InvalidTransitionError.prototype);
+  }
+}
+
+export const canTransition = (from: JobStatus, to: JobStatus): boolean => {
+  return (JOB_STATUS_TRANSITIONS[from] ?? []).indexOf(to) !== -1;
+};
+
+// Returns a copy of the job in the new status, throwing for illegal changes
+export const transitionJob = <T extends Job<unknown>>(
+  job: T,
+  status: JobStatus,
+  changes: Partial<T> = {}
+): T => {
+  if (!canTransition(job.status, status)) {
+    throw new InvalidTransitionError(job.id, job.status, status);
+  }
+
+  return { ...job, ...changes, status };
+};
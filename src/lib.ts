@@ -0,0 +1,35 @@
+// Programmatic entry point of the package. The CLI lives in `index.js`.
+
+export { Server, ServerConfig, StopOptions, WaitForJobOptions } from "./server";
+export {
+  Attempt,
+  canTransition,
+  DispatchRequest,
+  FINAL_JOB_STATUSES,
+  InvalidTransitionError,
+  Job,
+  JOB_STATUS_TRANSITIONS,
+  JobStatus,
+  transitionJob,
+  WebhookBody,
+} from "./job";
+export { Schedule, ScheduleStatus } from "./schedule";
+export { ReceivedDelivery, Receiver, ReceiverConfig } from "./receiver";
+export { JobEvent, JobEventFilter, JobEventListener, JobEventType } from "./events";
+export { FIXTURE_VERSION, JobFixture } from "./fixtures";
+export { Chaos, ChaosConfig, describeChaos, LatencyRange } from "./chaos";
+export { FileJobStore, JobStore, MemoryJobStore } from "./store";
+export { Clock } from "./clock";
+export { Logger, LogFormat, LoggerOptions, LogLevel } from "./logger";
+export { ForwardRoutes } from "./routing";
+export { DEFAULT_RETRY_POLICY, RetryPolicy } from "./retry";
+export {
+  computeSignature,
+  DEFAULT_SIGNATURE_TOLERANCE,
+  SIGNATURE_HEADER,
+  SigningMode,
+  signWebhook,
+  TIMESTAMP_HEADER,
+  verifyWebhookSignature,
+  VerifyWebhookSignatureOptions,
+} from "./signing";
@@ -0,0 +1,59 @@
+export interface DispatchLimits {
+  concurrency?: number; // deliveries in flight at once, unlimited when unset or 0
+  rateLimit?: number; // deliveries started per second, unlimited when unset or 0
+}
+
+const RATE_WINDOW = 1000; // milliseconds
+
+// Hands out delivery slots, so the server can throttle webhook deliveries
+// like the hosted service. Uses the real time, not the server clock, as it
+// throttles actual requests.
+export class DispatchLimiter {
+  private concurrency: number;
+  private rateLimit: number;
+  private now: () => number;
+  private inFlight = 0;
+  private starts: number[] = []; // start times within the current rate window
+
+  constructor(limits: DispatchLimits = {}, now: () => number = Date.now) {
+    this.concurrency = limits.concurrency ?? 0;
+    this.rateLimit = limits.rateLimit ?? 0;
+    this.now = now;
+  }
+
+  // Takes a slot when both limits allow another delivery right now
+  tryAcquire(): boolean {
+    const now = this.now();
+    this.starts = this.starts.filter((start) => start > now - RATE_WINDOW);
+
+    if (this.concurrency > 0 && this.inFlight >= this.concurrency) {
+      return false;
+    }
+    if (this.rateLimit > 0 && this.starts.length >= this.rateLimit) {
+      return false;
+    }
+
+    this.inFlight++;
+    if (this.rateLimit > 0) {
+      this.starts.push(now);
+    }
+    return true;
+  }
+
+  release(): void {
+    this.inFlight = Math.max(0, this.inFlight - 1);
+  }
+
+  // Milliseconds until the rate limit allows another delivery. 0 when it is
+  // not the rate limit that is in the way.
+  retryAfter(): number {
+    if (this.rateLimit <= 0 || this.starts.length < this.rateLimit) {
+      return 0;
+    }
+    return Math.max(0, this.starts[0] + RATE_WINDOW - this.now());
+  }
+
+  getInFlight(): number {
+    return this.inFlight;
+  }
+}
@@ -0,0 +1,128 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFormat = "text" | "json";
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+export const LOG_FORMATS: LogFormat[] = ["text", "json"];
+
+export interface LoggerOptions {
+  level?: LogLevel; // defaults to "info"
+  format?: LogFormat; // defaults to "text"
+  secrets?: (string | undefined)[]; // values masked wherever they appear, see MIN_SECRET_LENGTH
+}
+
+const REDACTED = "[REDACTED]";
+
+// Header and field names whose values are always masked
+const SENSITIVE_KEYS = ["authorization", "x-dispatched-signature", "apikey", "secret"];
+
+// Shorter secrets are only masked where they make up a whole value, hiding
+// every "s" or "abc123" inside other text would garble the logs
+const MIN_SECRET_LENGTH = 8;
+
+// Bearer tokens, whichever key they were sent with
+const BEARER_TOKEN = /\b(Bearer\s+)[^\s"',;]+/gi;
+
+// Writes log events either as human readable lines or as one JSON object per
+// line (`{"time","level","event","message",...data}`) for dev tooling. Known
+// secrets and sensitive headers are masked in both formats.
+export class Logger {
+  private level: LogLevel;
+  private format: LogFormat;
+  private secrets: string[];
+
+  constructor(options: LoggerOptions = {}) {
+    this.level = options.level ?? "info";
+    this.format = options.format ?? "text";
+    this.secrets = (options.secrets ?? []).filter(
+      (secret): secret is string => !!secret
+    );
+  }
+
+  debug(event: string, message: string, data?: Record<string, unknown>): void {
+    this.log("debug", event, message, data);
+  }
+
+  info(event: string, message: string, data?: Record<string, unknown>): void {
+    this.log("info", event, message, data);
+  }
+
+  warn(event: string, message: string, data?: Record<string, unknown>): void {
+    this.log("warn", event, message, data);
+  }
+
+  error(event: string, message: string, data?: Record<string, unknown>): void {
+    this.log("error", event, message, data);
+  }
+
+  private log(
+    level: LogLevel,
+    event: string,
+    message: string,
+    data?: Record<string, unknown>
+  ): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.level)) {
+      return;
+    }
+
+    const safeMessage = this.redact(message) as string;
+    const safeData = data && (this.redact(data) as Record<string, unknown>);
+
+    if (this.format === "json") {
+      console.log(
+        JSON.stringify({
+          time: new Date().toISOString(),
+          level,
+          event,
+          message: safeMessage,
+          ...safeData,
+        })
+      );
+      return;
+    }
+
+    const write =
+      level === "error" ? console.error : level === "warn" ? console.warn : console.log;
+
+    // Info and warn messages are self-contained, the data is only worth
+    // printing for debug details and errors
+    if ((level === "debug" || level === "error") && safeData) {
+      write(safeMessage, safeData);
+    } else {
+      write(safeMessage);
+    }
+  }
+
+  private redact(value: unknown, key?: string): unknown {
+    if (key && SENSITIVE_KEYS.indexOf(key.toLowerCase()) !== -1) {
+      return REDACTED;
+    }
+
+    if (typeof value === "string") {
+      if (this.secrets.indexOf(value) !== -1) {
+        return REDACTED;
+      }
+      return this.secrets
+        .filter((secret) => secret.length >= MIN_SECRET_LENGTH)
+        .reduce((result, secret) => result.split(secret).join(REDACTED), value)
+        .replace(BEARER_TOKEN, `$1${REDACTED}`);
+    }
+
+    if (value instanceof Error) {
+      return this.redact(value.message);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redact(item));
+    }
+
+    if (value && typeof value === "object") {
+      const result: Record<string, unknown> = {};
+      for (const [entryKey, entryValue] of Object.entries(value)) {
+        result[entryKey] = this.redact(entryValue, entryKey);
+      }
+      return result;
+    }
+
+    return value;
+  }
+}
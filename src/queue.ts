@@ -0,0 +1,198 @@
+import { Job } from "./job";
+import { JobStore } from "./store";
+
+interface DueEntry {
+  id: string;
+  dueAt: number; // milliseconds since the epoch, on the server clock
+  order: number; // jobs due at the same time come out in the order they were added
+}
+
+// Ids of queued jobs ordered by the time they become due, kept as a binary
+// min-heap with the position of every id, so adding, moving and removing a
+// job take O(log n) and the next due time is known in O(1).
+export class DueQueue {
+  private heap: DueEntry[] = [];
+  private positions = new Map<string, number>();
+  private added = 0;
+
+  size(): number {
+    return this.heap.length;
+  }
+
+  has(id: string): boolean {
+    return this.positions.has(id);
+  }
+
+  // Due time of the earliest job, if any
+  peek(): number | undefined {
+    return this.heap.length > 0 ? this.heap[0].dueAt : undefined;
+  }
+
+  // Adds the job, or moves it when it is queued already
+  set(id: string, dueAt: number): void {
+    const position = this.positions.get(id);
+
+    if (position === undefined) {
+      this.heap.push({ id, dueAt, order: this.added++ });
+      this.positions.set(id, this.heap.length - 1);
+      this.siftUp(this.heap.length - 1);
+      return;
+    }
+
+    const previous = this.heap[position].dueAt;
+    this.heap[position].dueAt = dueAt;
+    if (dueAt < previous) {
+      this.siftUp(position);
+    } else {
+      this.siftDown(position);
+    }
+  }
+
+  delete(id: string): boolean {
+    const position = this.positions.get(id);
+    if (position === undefined) {
+      return false;
+    }
+
+    const last = this.heap.pop()!;
+    this.positions.delete(id);
+    if (position < this.heap.length) {
+      // Fill the gap with the last entry and restore the order around it
+      this.heap[position] = last;
+      this.positions.set(last.id, position);
+      this.siftUp(position);
+      this.siftDown(this.positions.get(last.id)!);
+    }
+    return true;
+  }
+
+  // Removes and returns the ids of the jobs due at `now`, earliest first
+  takeDue(now: number): string[] {
+    const due: string[] = [];
+
+    while (this.heap.length > 0 && this.heap[0].dueAt <= now) {
+      const { id } = this.heap[0];
+      this.delete(id);
+      due.push(id);
+    }
+    return due;
+  }
+
+  clear(): void {
+    this.heap = [];
+    this.positions.clear();
+  }
+
+  private before(a: DueEntry, b: DueEntry): boolean {
+    return a.dueAt < b.dueAt || (a.dueAt === b.dueAt && a.order < b.order);
+  }
+
+  private siftUp(position: number): void {
+    while (position > 0) {
+      const parent = (position - 1) >> 1;
+      if (!this.before(this.heap[position], this.heap[parent])) {
+        return;
+      }
+      this.swap(position, parent);
+      position = parent;
+    }
+  }
+
+  private siftDown(position: number): void {
+    for (;;) {
+      const left = 2 * position + 1;
+      const right = left + 1;
+      let first = position;
+
+      if (left < this.heap.length && this.before(this.heap[left], this.heap[first])) {
+        first = left;
+      }
+      if (right < this.heap.length && this.before(this.heap[right], this.heap[first])) {
+        first = right;
+      }
+      if (first === position) {
+        return;
+      }
+      this.swap(position, first);
+      position = first;
+    }
+  }
+
+  private swap(a: number, b: number): void {
+    const entry = this.heap[a];
+    this.heap[a] = this.heap[b];
+    this.heap[b] = entry;
+    this.positions.set(this.heap[a].id, a);
+    this.positions.set(this.heap[b].id, b);
+  }
+}
+
+// Passes reads and writes through to `store` and keeps `queue` in step with
+// every write, whichever code path stored the job. `dueTime` returns when a
+// job should be dispatched, or undefined when it is not waiting for that;
+// `onNextDueChange` is called when the earliest due time changed.
+export class QueuedJobStore implements JobStore {
+  private store: JobStore;
+  private queue: DueQueue;
+  private dueTime: (job: Job) => number | undefined;
+  private onNextDueChange: () => void;
+
+  constructor(
+    store: JobStore,
+    queue: DueQueue,
+    dueTime: (job: Job) => number | undefined,
+    onNextDueChange: () => void
+  ) {
+    this.store = store;
+    this.queue = queue;
+    this.dueTime = dueTime;
+    this.onNextDueChange = onNextDueChange;
+
+    // Jobs a file store restored on startup
+    for (const job of store.values()) {
+      this.track(job.id, job);
+    }
+  }
+
+  get(id: string): Job | undefined {
+    return this.store.get(id);
+  }
+
+  set(id: string, job: Job): void {
+    this.store.set(id, job);
+
+    const nextDue = this.queue.peek();
+    this.track(id, job);
+    if (this.queue.peek() !== nextDue) {
+      this.onNextDueChange();
+    }
+  }
+
+  delete(id: string): boolean {
+    const nextDue = this.queue.peek();
+    this.queue.delete(id);
+    if (this.queue.peek() !== nextDue) {
+      this.onNextDueChange();
+    }
+
+    return this.store.delete(id);
+  }
+
+  values(): Job[] {
+    return this.store.values();
+  }
+
+  flush(): void {
+    this.store.flush?.();
+  }
+
+  private track(id: string, job: Job): void {
+    const dueAt = this.dueTime(job);
+
+    if (dueAt === undefined) {
+      this.queue.delete(id);
+    } else {
+      this.queue.set(id, dueAt);
+    }
+  }
+}
@@ -0,0 +1,232 @@
+import crypto from "crypto";
+import express, { Express, Request, Response } from "express";
+import http from "http";
+import { AddressInfo } from "net";
+import { WebhookBody } from "./job";
+import { Logger, LogFormat, LogLevel } from "./logger";
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifyWebhookSignature } from "./signing";
+import { MAX_BODY_SIZE } from "./validation";
+
+export interface ReceiverConfig {
+  port: number;
+  secret: string; // expected as `Authorization: Bearer <secret>`, like the server sends it
+  statuses?: number[]; // status of the nth delivery, the last one repeats, defaults to 200
+  delay?: number; // milliseconds to wait before answering
+  logLevel?: LogLevel; // defaults to "info"
+  logFormat?: LogFormat; // defaults to "text"
+}
+
+// A webhook request as seen by the receiver
+export interface ReceivedDelivery {
+  receivedAt: string;
+  path: string;
+  authorized: boolean; // whether the Authorization header carried the secret
+  signature: "valid" | "invalid" | "missing"; // X-Dispatched-Signature check
+  statusCode: number; // status the receiver answered with
+  jobId?: string;
+  attemptId?: string;
+  attemptNumber?: number;
+  payload?: unknown;
+  body: string; // raw request body
+}
+
+// Parses the --status option of `dispatchedjs receive`, like '200' or
+// '500,500,200' to fail twice before succeeding
+export const parseStatusCodes = (value: string): number[] => {
+  return value.split(",").map((part) => {
+    const status = Number(part.trim());
+
+    if (!/^\d{3}$/.test(part.trim()) || status < 200 || status > 599) {
+      throw new Error(`Invalid status code '${part.trim()}', expected a number from 200 to 599`);
+    }
+    return status;
+  });
+};
+
+// Local stand-in for a worker's webhook endpoint: checks the credentials
+// `dispatchedjs listen` sends, records every delivery and answers with the
+// configured status codes, so deliveries can be tested end to end offline.
+export class Receiver {
+  private app: Express;
+  private config: ReceiverConfig;
+  private logger: Logger;
+  private deliveries: ReceivedDelivery[] = [];
+  private httpServer: http.Server | undefined;
+
+  constructor(config: ReceiverConfig) {
+    this.app = express();
+    this.config = config;
+    this.logger = new Logger({
+      level: config.logLevel,
+      format: config.logFormat,
+      secrets: [config.secret],
+    });
+
+    // The raw body is needed to check signatures
+    this.app.use(express.text({ type: "*/*", limit: MAX_BODY_SIZE }));
+    this.app.get("/_receiver/deliveries", (req: Request, res: Response) => {
+      res.status(200).json({ deliveries: this.deliveries });
+    });
+    this.app.post("*", (req: Request, res: Response) => this.receive(req, res));
+  }
+
+  private async receive(req: Request, res: Response): Promise<void> {
+    const body = typeof req.body === "string" ? req.body : "";
+    const authorized = this.isAuthorized(req.headers.authorization);
+    const signature = this.checkSignature(req, body);
+
+    let webhook: Partial<WebhookBody> = {};
+    try {
+      webhook = JSON.parse(body);
+    } catch {
+      // Recorded with the raw body only
+    }
+
+    const statusCode =
+      !authorized || signature === "invalid" ? 401 : this.nextStatus();
+    const delivery: ReceivedDelivery = {
+      receivedAt: new Date().toISOString(),
+      path: req.path,
+      authorized,
+      signature,
+      statusCode,
+      jobId: webhook.jobId,
+      attemptId: webhook.attemptId,
+      attemptNumber: webhook.attemptNumber,
+      payload: webhook.payload,
+      body,
+    };
+    this.deliveries.push(delivery);
+    this.logDelivery(delivery);
+
+    if (this.config.delay) {
+      await new Promise((resolve) => setTimeout(resolve, this.config.delay));
+    }
+
+    if (statusCode === 401) {
+      res.status(401).json({
+        error: "Unauthorized",
+        message: authorized ? "Invalid webhook signature" : "Invalid or missing webhook secret",
+      });
+      return;
+    }
+
+    res.status(statusCode).json({ received: true, jobId: delivery.jobId ?? null });
+  }
+
+  private isAuthorized(header: string | undefined): boolean {
+    const expected = Buffer.from(`Bearer ${this.config.secret}`);
+    const actual = Buffer.from(header ?? "");
+
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  // Signatures are optional, the server only adds them with --signing
+  private checkSignature(req: Request, body: string): ReceivedDelivery["signature"] {
+    const signature = req.header(SIGNATURE_HEADER);
+    if (!signature) {
+      return "missing";
+    }
+
+    return verifyWebhookSignature({
+      secret: this.config.secret,
+      body,
+      signature,
+      timestamp: req.header(TIMESTAMP_HEADER),
+    })
+      ? "valid"
+      : "invalid";
+  }
+
+  // Status for the next authorized delivery, counting the earlier ones
+  private nextStatus(): number {
+    const statuses = this.config.statuses?.length ? this.config.statuses : [200];
+    const answered = this.deliveries.filter((delivery) => delivery.statusCode !== 401).length;
+
+    return statuses[Math.min(answered, statuses.length - 1)];
+  }
+
+  private logDelivery(delivery: ReceivedDelivery): void {
+    const attempt = delivery.attemptNumber ? ` (attempt ${delivery.attemptNumber})` : "";
+    const data = {
+      jobId: delivery.jobId,
+      attemptId: delivery.attemptId,
+      statusCode: delivery.statusCode,
+      signature: delivery.signature,
+    };
+
+    if (!delivery.authorized) {
+      this.logger.warn(
+        "delivery.rejected",
+        `🚫 Rejected delivery of job ${delivery.jobId ?? "?"}: invalid or missing Authorization header`,
+        data
+      );
+      return;
+    }
+    if (delivery.signature === "invalid") {
+      this.logger.warn(
+        "delivery.rejected",
+        `🚫 Rejected delivery of job ${delivery.jobId ?? "?"}: invalid signature`,
+        data
+      );
+      return;
+    }
+
+    this.logger.info(
+      "delivery.received",
+      `📬 Job ${delivery.jobId ?? "?"}${attempt} received on ${delivery.path}, answering ${delivery.statusCode}`,
+      data
+    );
+    this.logger.info(
+      "delivery.payload",
+      JSON.stringify(delivery.payload === undefined ? delivery.body : delivery.payload, null, 2),
+      { jobId: delivery.jobId, payload: delivery.payload }
+    );
+  }
+
+  getDeliveries(): ReceivedDelivery[] {
+    return this.deliveries;
+  }
+
+  // Resolves with the port once the receiver accepts requests
+  listen(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.httpServer = this.app.listen(this.config.port, () => {
+        const address = this.httpServer?.address();
+        const port =
+          address && typeof address === "object"
+            ? (address as AddressInfo).port
+            : this.config.port;
+
+        this.logger.info("receiver.listening", `📥 Webhook receiver running on port ${port}`, {
+          port,
+        });
+        if (this.config.statuses?.length) {
+          this.logger.info(
+            "receiver.listening",
+            `↩️  Answering deliveries with ${this.config.statuses.join(", ")}`
+          );
+        }
+        resolve(port);
+      });
+      this.httpServer.once("error", (error) => {
+        this.httpServer = undefined;
+        reject(error);
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    const httpServer = this.httpServer;
+    this.httpServer = undefined;
+
+    if (!httpServer) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      httpServer.close(() => resolve());
+      httpServer.closeIdleConnections?.();
+    });
+  }
+}
@@ -0,0 +1,73 @@
+export interface RetryPolicy {
+  maxAttempts: number; // total delivery attempts, including the first one
+  initialDelay: number; // seconds to wait before the first retry
+  maxDelay: number; // upper bound for the backoff, in seconds
+  multiplier: number; // growth factor applied for every further retry
+  jitter: number; // 0-1, fraction of the delay randomised in both directions
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  initialDelay: 5,
+  maxDelay: 300,
+  multiplier: 2,
+  jitter: 0.2,
+};
+
+// Settings a retry policy can override, in --retry options and request bodies
+export const RETRY_POLICY_KEYS: (keyof RetryPolicy)[] = [
+  "maxAttempts",
+  "initialDelay",
+  "maxDelay",
+  "multiplier",
+  "jitter",
+];
+
+// Picks the known, numeric policy fields out of an untrusted object (e.g. the
+// `retry` field of a dispatch request). Anything else is ignored.
+export const parseRetryPolicy = (input: unknown): Partial<RetryPolicy> => {
+  const policy: Partial<RetryPolicy> = {};
+
+  if (!input || typeof input !== "object") {
+    return policy;
+  }
+
+  for (const key of RETRY_POLICY_KEYS) {
+    const value = (input as Record<string, unknown>)[key];
+    if (typeof value === "number" && isFinite(value) && value >= 0) {
+      policy[key] = value;
+    }
+  }
+
+  return policy;
+};
+
+export const resolveRetryPolicy = (
+  ...overrides: (Partial<RetryPolicy> | undefined)[]
+): RetryPolicy => {
+  const policy = { ...DEFAULT_RETRY_POLICY };
+
+  for (const override of overrides) {
+    Object.assign(policy, parseRetryPolicy(override));
+  }
+
+  policy.maxAttempts = Math.max(1, Math.floor(policy.maxAttempts));
+  policy.jitter = Math.min(1, policy.jitter);
+
+  return policy;
+};
+
+// Milliseconds to wait before the retry that follows `attemptNumber`
+// (1-based), using exponential backoff with jitter.
+export const getRetryDelay = (
+  attemptNumber: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number => {
+  const exponential =
+    policy.initialDelay * Math.pow(policy.multiplier, attemptNumber - 1);
+  const delay = Math.min(exponential, policy.maxDelay);
+  const jittered = delay * (1 + policy.jitter * (2 * random() - 1));
+
+  return Math.round(Math.max(0, jittered) * 1000);
+};
@@ -0,0 +1,45 @@
+// Maps the `queue` (or `topic`) of a job to the URL its webhooks are sent to
+export type ForwardRoutes = Record<string, string>;
+
+const ROUTE_PATTERN = /^([\w.-]+)=(.+)$/;
+
+// Splits `--forward` values into the default URL and `queue=url` routes,
+// e.g. ["http://localhost:3000/webhook", "emails=http://localhost:3001/jobs"].
+export const parseForwardOptions = (
+  values: string[]
+): { forwardUrl?: string; routes: ForwardRoutes } => {
+  let forwardUrl: string | undefined;
+  const routes: ForwardRoutes = {};
+
+  for (const value of values) {
+    const match = ROUTE_PATTERN.exec(value);
+
+    if (match) {
+      routes[match[1]] = match[2];
+      continue;
+    }
+
+    if (forwardUrl !== undefined) {
+      throw new Error(
+        `Only one default forward URL is allowed, got '${forwardUrl}' and '${value}'`
+      );
+    }
+    forwardUrl = value;
+  }
+
+  return { forwardUrl, routes };
+};
+
+export const resolveForwardUrl = (
+  job: { queue?: string; topic?: string },
+  routes: ForwardRoutes,
+  forwardUrl?: string
+): string | undefined => {
+  for (const key of [job.queue, job.topic]) {
+    if (key !== undefined && Object.prototype.hasOwnProperty.call(routes, key)) {
+      return routes[key];
+    }
+  }
+
+  return forwardUrl;
+};
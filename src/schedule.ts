@@ -0,0 +1,45 @@
+import { nextCronRun, parseCron } from "./cron";
+import { RetryPolicy } from "./retry";
+import { parseDuration } from "./time";
+
+export type ScheduleStatus = "ACTIVE" | "PAUSED";
+
+// A recurring job, created by sending `cron` or `every` to
+// POST /api/jobs/dispatch. Every run is queued as a regular job carrying the
+// schedule's `scheduleId`.
+export interface Schedule<TPayload = unknown> {
+  id: string;
+  status: ScheduleStatus;
+  cron?: string; // e.g. "0 3 * * *", evaluated in UTC
+  every?: string; // interval like "30s", "5m", "1h"
+  payload: TPayload;
+  queue?: string;
+  topic?: string;
+  retry?: Partial<RetryPolicy>;
+  createdAt: string;
+  runCount: number; // runs queued so far
+  nextRunAt?: string; // scheduled time of the upcoming run, unset while paused
+  nextJobId?: string; // job queued for the upcoming run
+}
+
+// Time of the run that follows `previous`, skipping runs that were missed
+// before `now` (e.g. after a clock jump) so they are not all queued at once.
+export const nextScheduleRun = (
+  schedule: Pick<Schedule, "cron" | "every">,
+  previous: Date,
+  now: Date
+): Date | undefined => {
+  const after = previous > now ? previous : now;
+
+  if (schedule.cron !== undefined) {
+    return nextCronRun(parseCron(schedule.cron), after);
+  }
+
+  const interval = parseDuration(schedule.every ?? "");
+  if (!interval) {
+    return undefined;
+  }
+
+  const missed = Math.floor((after.getTime() - previous.getTime()) / interval);
+  return new Date(previous.getTime() + (missed + 1) * interval);
+};
@@ -1,70 +1,279 @@
-import express, { Express, Request, Response } from "express";
+import crypto from "crypto";
+import express, { Express, NextFunction, Request, Response } from "express";
+import http from "http";
+import { AddressInfo } from "net";
+import { getRetryDelay, resolveRetryPolicy, RetryPolicy } from "./retry";
+import { Chaos, ChaosConfig, describeChaos, validateChaosConfig } from "./chaos";
+import { Clock } from "./clock";
+import {
+  Attempt,
+  canTransition,
+  DispatchRequest,
+  FINAL_JOB_STATUSES,
+  Job,
+  JobStatus,
+  transitionJob,
+  WebhookBody,
+} from "./job";
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IdempotencyCache,
+  resolveIdempotencyKey,
+} from "./idempotency";
+import {
+  formatServerSentEvent,
+  JobEventBus,
+  JobEventFilter,
+  JobEventListener,
+  JobEventType,
+  matchesEventFilter,
+} from "./events";
+import { FIXTURE_VERSION, JobFixture, parseFixture, rebaseFixture } from "./fixtures";
+import { DispatchLimiter } from "./limiter";
+import { Logger, LogFormat, LogLevel } from "./logger";
+import { ForwardRoutes, resolveForwardUrl } from "./routing";
+import { DueQueue, QueuedJobStore } from "./queue";
+import { nextScheduleRun, Schedule } from "./schedule";
+import { SigningMode, signWebhook } from "./signing";
+import { JobStore, MemoryJobStore } from "./store";
+import { parseDuration } from "./time";
+import {
+  MAX_BODY_SIZE,
+  validateBatchRequest,
+  validateDispatchRequest,
+  validateUpdateRequest,
+  ValidationError,
+} from "./validation";
 
-interface ServerConfig {
+export interface ServerConfig {
   webhookSecret: string;
-  forwardUrl: string;
+  forwardUrl?: string; // fallback for jobs that match no route
+  routes?: ForwardRoutes; // forward URL per job queue/topic
   port: number;
   scheduledDelay?: number; // seconds to add to scheduled jobs, defaults to 30
+  retry?: Partial<RetryPolicy>; // defaults to a single attempt without retries
+  store?: JobStore; // defaults to an in-memory store
+  signing?: SigningMode; // adds a timestamped signature header, off by default
+  apiKey?: string; // required as a bearer token on /api/jobs when set
+  clock?: Clock; // defaults to the system time
+  logLevel?: LogLevel; // defaults to "info"
+  logFormat?: LogFormat; // defaults to "text"
+  idempotencyWindow?: number; // seconds an idempotency key is kept, defaults to 24 hours
+  concurrency?: number; // deliveries in flight at once, unlimited by default
+  rateLimit?: number; // deliveries started per second, unlimited by default
+  chaos?: ChaosConfig; // faults to inject, off by default
+}
+
+export interface WaitForJobOptions {
+  timeout?: number; // milliseconds, defaults to 5 seconds
+}
+
+export interface StopOptions {
+  timeout?: number; // milliseconds to wait for in-flight deliveries, defaults to 10 seconds
+  signal?: string; // process signal that asked the server to stop, logged as the reason
+}
+
+const DEFAULT_STOP_TIMEOUT = 10000;
+// Milliseconds due jobs are collected for before they are dispatched in
+// random order, when chaos mode dispatches out of order
+const OUT_OF_ORDER_WINDOW = 500;
+// Longest delay setTimeout supports (about 24.8 days), the scheduler sleeps
+// again when a job is due later than that
+const MAX_TIMER_DELAY = 2147483647;
+const DEFAULT_WAIT_TIMEOUT = 5000;
+
+// Due jobs collected for out-of-order dispatch
+interface OutOfOrderBatch {
+  jobs: Job[];
+  timer: NodeJS.Timeout;
+  release: () => void; // dispatches the jobs in random order
+  delivered: Promise<void>; // resolves once their deliveries are done
 }
 
 export class Server {
   private app: Express;
   private config: ServerConfig;
-  private jobCache: Map<string, any>;
-  private jobScheduler: NodeJS.Timeout | null = null;
+  private retryPolicy: RetryPolicy;
+  private clock: Clock;
+  private logger: Logger;
+  private jobCache: JobStore;
+  private idempotencyKeys: IdempotencyCache;
+  private schedules = new Map<string, Schedule>(); // recurring jobs, in memory only
+  private dueScheduleRuns = new DueQueue(); // ACTIVE schedules by their next run time
+  private dueJobs = new DueQueue(); // QUEUED jobs by the time they become due
+  private jobScheduler: NodeJS.Timeout | null = null; // fires when the next job is due
+  private schedulerStarted = false;
+  private unwatchClock: (() => void) | null = null;
+  private limiter: DispatchLimiter;
+  private chaos: Chaos;
+  private pendingDispatches: string[] = []; // ids of due jobs waiting for a delivery slot
+  private pendingTimer: NodeJS.Timeout | null = null;
+  private outOfOrderBatch: OutOfOrderBatch | null = null;
+  private deliveries: Promise<void>[] = []; // in flight, awaited by stop()
+  private httpServer: http.Server | undefined;
+  private events = new JobEventBus();
+  private eventStreams: (() => void)[] = []; // closes an open GET /api/events stream
+  private stopping = false;
 
   constructor(config: ServerConfig) {
     this.app = express();
     this.config = { scheduledDelay: 30, ...config }; // default 30 seconds
+    this.retryPolicy = resolveRetryPolicy(config.retry);
+    this.clock = config.clock ?? new Clock();
+    this.limiter = new DispatchLimiter({
+      concurrency: config.concurrency,
+      rateLimit: config.rateLimit,
+    });
+    this.chaos = new Chaos(config.chaos);
+    this.logger = new Logger({
+      level: config.logLevel,
+      format: config.logFormat,
+      secrets: [config.webhookSecret, config.apiKey],
+    });
     this.setupMiddleware();
     this.setupWebhook();
-    this.jobCache = new Map<string, any>();
+    this.setupScheduleRoutes();
+    this.setupEventRoutes();
+    this.setupDevRoutes();
+    this.setupErrorHandler();
+    this.jobCache = new QueuedJobStore(
+      config.store ?? new MemoryJobStore(),
+      this.dueJobs,
+      (job) => this.dueTime(job),
+      () => this.armJobScheduler()
+    );
+    this.idempotencyKeys = new IdempotencyCache(config.idempotencyWindow);
   }
 
   private setupMiddleware(): void {
-    this.app.use(express.json());
+    this.app.use(express.json({ limit: MAX_BODY_SIZE }));
+    for (const path of ["/api/jobs", "/api/schedules", "/api/events", "/api/_dev"]) {
+      this.app.use(path, (req: Request, res: Response, next: NextFunction) =>
+        this.authenticate(req, res, next)
+      );
+    }
+
+    // Chaos mode fails dispatch requests before they create a job, like an
+    // outage of the job service would
+    this.app.use("/api/jobs/dispatch", (req: Request, res: Response, next: NextFunction) => {
+      if (req.method !== "POST" || !this.chaos.shouldFailApi()) {
+        return next();
+      }
+
+      this.logger.warn("chaos.api_error", "🐒 Failing dispatch request (chaos mode)");
+      res.status(503).json({
+        error: "Service unavailable",
+        message: "Dispatch request failed by chaos mode",
+        code: "CHAOS_API_ERROR",
+      });
+    });
+  }
+
+  // Mirrors the production API: 401 without credentials, 403 with a wrong key
+  private authenticate(req: Request, res: Response, next: NextFunction): void {
+    if (!this.config.apiKey) {
+      return next();
+    }
+
+    const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? "");
+
+    if (!match) {
+      res.status(401).json({
+        error: "Unauthorized",
+        message: "Missing API key, send it as 'Authorization: Bearer <api key>'",
+        code: "MISSING_API_KEY",
+      });
+      return;
+    }
+
+    const expected = Buffer.from(this.config.apiKey);
+    const actual = Buffer.from(match[1]);
+
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      res.status(403).json({
+        error: "Forbidden",
+        message: "Invalid API key",
+        code: "INVALID_API_KEY",
+      });
+      return;
+    }
+
+    next();
   }
 
   private setupWebhook(): void {
     this.app.post("/api/jobs/dispatch", async (req: Request, res: Response) => {
       try {
-        console.log("Job Received", req.body);
-
-        const scheduledFor = req.body?.scheduledFor
-          ? new Date(req.body.scheduledFor)
-          : new Date();
-        const now = new Date();
-        // Add 2-second buffer plus configured delay to determine if job should be dispatched immediately
-        const bufferTime = new Date(now.getTime() + 2000);
-        const isImmediate = scheduledFor <= bufferTime;
-
-        const job = {
-          id: randomId(),
-          status: "QUEUED",
-          scheduledFor: scheduledFor.toISOString(),
-          payload: req.body?.payload ?? {},
-          createdAt: now.toISOString(),
-        };
-
-        this.jobCache.set(job.id, job);
-
-        if (isImmediate) {
-          // Dispatch immediately (non-blocking)
-          this.dispatchJob(job).catch((err) => {
-            console.error(`Error dispatching job ${job.id}:`, err);
-          });
-        } else {
-          console.log(
-            `Job ${job.id} scheduled for ${job.scheduledFor} (will dispatch when time comes)`
+        this.logger.debug("job.received", "Job Received", { body: req.body });
+
+        let created: { job: Job; replayed: boolean };
+        try {
+          const body = validateDispatchRequest(req.body);
+          const idempotencyKey = resolveIdempotencyKey(
+            req.headers?.[IDEMPOTENCY_KEY_HEADER.toLowerCase()],
+            req.body.idempotencyKey
           );
+          if (isRecurring(body)) {
+            return res.status(201).json(this.createSchedule(body, idempotencyKey));
+          }
+          created = this.createJob(body, idempotencyKey);
+        } catch (error) {
+          return sendValidationError(res, error);
         }
 
-        console.log("Dispatch Response", job);
-        console.log("--------------------------------------------------------");
+        if (created.replayed) {
+          res.set("Idempotent-Replayed", "true");
+          return res.status(200).json(created.job);
+        }
+
+        res.status(201).json(created.job);
+      } catch (error) {
+        this.logger.error("request.error", "Error processing request", { error });
+        res.status(500).json({ error: "Internal server error" });
+      }
+    });
+
+    this.app.post("/api/jobs/dispatch/batch", (req: Request, res: Response) => {
+      let items: unknown[];
+      try {
+        items = validateBatchRequest(req.body);
+      } catch (error) {
+        return sendValidationError(res, error);
+      }
+
+      try {
+        // Every item is created on its own, an invalid item does not stop the others
+        const results = items.map((item, index) => {
+          try {
+            const body = validateDispatchRequest(item);
+            const idempotencyKey = resolveIdempotencyKey(
+              undefined,
+              (item as Record<string, unknown>).idempotencyKey
+            );
+            if (isRecurring(body)) {
+              return { index, status: 201, schedule: this.createSchedule(body, idempotencyKey) };
+            }
+            const { job, replayed } = this.createJob(body, idempotencyKey);
+
+            return { index, status: replayed ? 200 : 201, job };
+          } catch (error) {
+            if (!(error instanceof ValidationError)) {
+              throw error;
+            }
+            return { index, status: error.status, error: validationErrorBody(error) };
+          }
+        });
+        const failed = results.filter((result) => result.error).length;
+
+        this.logger.info(
+          "batch.created",
+          `Batch of ${results.length} job(s) received, ${failed} rejected`,
+          { count: results.length, failed }
+        );
 
-        res.status(201).json(job);
+        res.status(200).json({ results, created: results.length - failed, failed });
       } catch (error) {
-        console.error("Error processing request:", error);
+        this.logger.error("request.error", "Error processing request", { error });
         res.status(500).json({ error: "Internal server error" });
       }
     });
@@ -79,6 +288,67 @@ export class Server {
       res.status(200).json(job);
     });
 
+    this.app.get("/api/jobs/:id/attempts", (req: Request, res: Response) => {
+      const job = this.jobCache.get(req.params.id);
+
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      res.status(200).json({ jobId: job.id, attempts: job.attempts ?? [] });
+    });
+
+    this.app.get("/api/jobs", (req: Request, res: Response) => {
+      const statuses = queryList(req.query.status)?.map((status) => status.toUpperCase());
+      const limit = queryNumber(req.query.limit) ?? DEFAULT_LIST_LIMIT;
+      const offset = queryNumber(req.query.offset) ?? 0;
+
+      const ranges: Record<string, Date | undefined> = {};
+      for (const key of ["createdAfter", "createdBefore", "scheduledAfter", "scheduledBefore"]) {
+        const value = queryString(req.query[key]);
+        if (value === undefined) continue;
+
+        const date = new Date(value);
+        if (isNaN(date.getTime())) {
+          return res.status(400).json({
+            error: "Invalid query",
+            message: `'${key}' must be a valid date`,
+            code: "INVALID_QUERY",
+          });
+        }
+        ranges[key] = date;
+      }
+
+      if (!(limit >= 1 && limit <= MAX_LIST_LIMIT) || !(offset >= 0)) {
+        return res.status(400).json({
+          error: "Invalid query",
+          message: `'limit' must be between 1 and ${MAX_LIST_LIMIT} and 'offset' must not be negative`,
+          code: "INVALID_QUERY",
+        });
+      }
+
+      const isInRange = (value: string, after?: Date, before?: Date) => {
+        const date = new Date(value);
+        return (!after || date >= after) && (!before || date <= before);
+      };
+
+      const jobs = this.jobCache
+        .values()
+        .filter(
+          (job) =>
+            (!statuses?.length || statuses.indexOf(job.status) !== -1) &&
+            isInRange(job.createdAt, ranges.createdAfter, ranges.createdBefore) &&
+            isInRange(job.scheduledFor, ranges.scheduledAfter, ranges.scheduledBefore)
+        );
+
+      res.status(200).json({
+        jobs: jobs.slice(offset, offset + limit),
+        total: jobs.length,
+        limit,
+        offset,
+      });
+    });
+
     this.app.patch("/api/jobs/:id", (req: Request, res: Response) => {
       const job = this.jobCache.get(req.params.id);
 
@@ -96,37 +366,75 @@ export class Server {
           .json({ error: "Job can only be updated when status is QUEUED" });
       }
 
-      const { scheduledFor } = req.body;
-
-      if (!scheduledFor) {
-        return res.status(400).json({ error: "scheduledFor is required" });
+      let scheduledFor: string;
+      try {
+        ({ scheduledFor } = validateUpdateRequest(req.body));
+      } catch (error) {
+        return sendValidationError(res, error);
       }
 
-      console.log("Updating job", job.id, "with scheduledFor:", scheduledFor);
-
       const newScheduledTime = new Date(scheduledFor);
-      const now = new Date();
+      const now = this.clock.date();
 
-      const updatedJob = {
+      const updatedJob: Job = {
         ...job,
         scheduledFor: newScheduledTime.toISOString(),
       };
+      // An explicit reschedule replaces any pending retry
+      delete updatedJob.nextAttemptAt;
 
       this.jobCache.set(req.params.id, updatedJob);
+      this.publishEvent("job.updated", updatedJob);
+
+      // A job waiting for a delivery slot is due again only at its new time
+      this.pendingDispatches = this.pendingDispatches.filter((id) => id !== job.id);
 
       // If updated to immediate time (considering 2-second buffer) and hasn't been dispatched yet, dispatch now
       const bufferTime = new Date(now.getTime() + 2000);
       if (newScheduledTime <= bufferTime) {
-        this.dispatchJob(updatedJob).catch((err) => {
-          console.error("Error dispatching updated job:", err);
-        });
+        this.dispatchDueJobs([updatedJob]);
       }
 
-      console.log("Job updated", updatedJob);
+      this.logger.info(
+        "job.updated",
+        `Job ${job.id} rescheduled for ${updatedJob.scheduledFor}`,
+        { jobId: job.id, scheduledFor: updatedJob.scheduledFor }
+      );
 
       res.status(200).json(updatedJob);
     });
 
+    this.app.post("/api/jobs/:id/retry", (req: Request, res: Response) => {
+      const job = this.jobCache.get(req.params.id);
+
+      if (!job) {
+        return res.status(404).json({
+          error: "Job not found",
+          message: `Job with id '${req.params.id}' does not exist`,
+          code: "JOB_NOT_FOUND",
+        });
+      }
+
+      if (job.status !== "FAILED" && job.status !== "COMPLETED") {
+        return res.status(400).json({
+          error: "Job can only be retried when status is FAILED or COMPLETED",
+          message: `Job '${job.id}' is ${job.status}`,
+          code: "INVALID_JOB_STATUS",
+        });
+      }
+
+      this.logger.info("job.retried", `Retrying job ${job.id}`, { jobId: job.id });
+
+      // A manual retry starts a fresh retry budget, attempt numbers keep counting
+      const retriedJob = transitionJob(job, "QUEUED", { baseAttemptCount: job.attemptCount });
+      this.jobCache.set(req.params.id, retriedJob);
+      this.publishEvent("job.updated", retriedJob);
+
+      this.dispatchDueJobs([retriedJob]);
+
+      res.status(200).json(retriedJob);
+    });
+
     this.app.delete("/api/jobs/:id", (req: Request, res: Response) => {
       const job = this.jobCache.get(req.params.id);
 
@@ -134,148 +442,1221 @@ export class Server {
         return res.status(404).json({ error: "Job not found" });
       }
 
-      if (job.status !== "QUEUED") {
+      if (!canTransition(job.status, "CANCELLED")) {
         return res.status(400).json({ error: "Job can only be cancelled when status is QUEUED" });
       }
 
-      console.log("Cancelling job", job);
+      const cancelledJob = transitionJob(job, "CANCELLED");
+      this.jobCache.set(req.params.id, cancelledJob);
+      this.publishEvent("job.cancelled", cancelledJob);
 
-      this.jobCache.set(req.params.id, {
-        ...job,
-        status: "CANCELLED",
+      this.logger.info("job.cancelled", `Job ${job.id} cancelled`, { jobId: job.id });
+
+      res.status(200).json(job);
+    });
+  }
+
+  // Time control for tests: moving the clock makes due jobs dispatch right
+  // away, the responses are sent once those deliveries are done. Export and
+  // import snapshot the jobs as fixtures, the chaos settings change the
+  // injected faults at runtime.
+  private setupDevRoutes(): void {
+    const clockState = () => ({
+      now: this.clock.date().toISOString(),
+      offset: this.clock.getOffset(),
+    });
+
+    const invalidClockValue = (res: Response, message: string) =>
+      res.status(400).json({
+        error: "Invalid clock value",
+        message,
+        code: "INVALID_CLOCK_VALUE",
       });
 
-      console.log("Job cancelled", job);
+    this.app.get("/api/_dev/clock", (req: Request, res: Response) => {
+      res.status(200).json(clockState());
+    });
 
-      res.status(200).json(job);
+    this.app.post("/api/_dev/clock/advance", async (req: Request, res: Response) => {
+      const by = req.body?.by;
+      const milliseconds = typeof by === "string" ? parseDuration(by) : by;
+
+      if (typeof milliseconds !== "number" || !isFinite(milliseconds) || milliseconds < 0) {
+        return invalidClockValue(
+          res,
+          "'by' must be a duration like '30s', '5m', '2h', '3d' or a number of milliseconds"
+        );
+      }
+      // Dates end about 275,000 years from now, past that every date call throws
+      if (isNaN(new Date(this.clock.now() + milliseconds).getTime())) {
+        return invalidClockValue(
+          res,
+          `Advancing by '${by}' moves the clock past the last valid date`
+        );
+      }
+
+      this.clock.advance(milliseconds);
+      this.logger.info(
+        "clock.changed",
+        `⏩ Clock advanced by ${milliseconds}ms to ${this.clock.date().toISOString()}`,
+        clockState()
+      );
+      await this.runScheduledJobs();
+
+      res.status(200).json(clockState());
+    });
+
+    this.app.post("/api/_dev/clock/set", async (req: Request, res: Response) => {
+      const time = new Date(req.body?.time);
+
+      if (!req.body?.time || isNaN(time.getTime())) {
+        return invalidClockValue(res, "'time' must be a valid date");
+      }
+
+      this.clock.set(time);
+      this.logger.info(
+        "clock.changed",
+        `⏩ Clock set to ${this.clock.date().toISOString()}`,
+        clockState()
+      );
+      await this.runScheduledJobs();
+
+      res.status(200).json(clockState());
+    });
+
+    this.app.post("/api/_dev/clock/reset", (req: Request, res: Response) => {
+      this.clock.reset();
+      this.logger.info("clock.changed", "⏩ Clock reset to the system time", clockState());
+
+      res.status(200).json(clockState());
+    });
+
+    const chaosState = () => ({
+      enabled: this.chaos.isEnabled(),
+      ...this.chaos.getConfig(),
+    });
+
+    this.app.get("/api/_dev/chaos", (req: Request, res: Response) => {
+      res.status(200).json(chaosState());
+    });
+
+    // Changes the given chaos settings, the others keep their value
+    this.app.post("/api/_dev/chaos", (req: Request, res: Response) => {
+      try {
+        this.chaos.update(validateChaosConfig(req.body));
+      } catch (error) {
+        return sendValidationError(res, error);
+      }
+
+      this.logger.warn(
+        "chaos.changed",
+        `🐒 Chaos mode: ${describeChaos(this.chaos.getConfig())}`,
+        chaosState()
+      );
+      res.status(200).json(chaosState());
+    });
+
+    this.app.post("/api/_dev/chaos/reset", (req: Request, res: Response) => {
+      this.chaos.reset();
+      this.logger.info("chaos.changed", "🐒 Chaos mode off", chaosState());
+
+      res.status(200).json(chaosState());
+    });
+
+    this.app.get("/api/_dev/export", (req: Request, res: Response) => {
+      const fixture: JobFixture = {
+        version: FIXTURE_VERSION,
+        exportedAt: this.clock.date().toISOString(),
+        jobs: this.jobCache.values(),
+        schedules: Array.from(this.schedules.values()),
+      };
+
+      res.status(200).json(fixture);
+    });
+
+    // `?replace=true` drops the current jobs first, `?rebase=true` moves the
+    // fixture's times by the time passed since it was exported
+    this.app.post("/api/_dev/import", async (req: Request, res: Response) => {
+      try {
+        let fixture: JobFixture;
+        try {
+          fixture = parseFixture(req.body);
+          if (req.query.rebase === "true") {
+            fixture = rebaseFixture(fixture, this.clock.date());
+          }
+        } catch (error) {
+          return sendValidationError(res, error);
+        }
+
+        const replace = req.query.replace === "true";
+        if (replace) {
+          // In-flight deliveries would store their jobs again, like in reset()
+          this.releaseOutOfOrderBatch(true);
+          this.pendingDispatches = [];
+          await Promise.all(this.deliveries);
+
+          for (const job of this.jobCache.values()) {
+            this.jobCache.delete(job.id);
+          }
+          this.schedules.clear();
+          this.dueScheduleRuns.clear();
+        }
+
+        for (const job of fixture.jobs) {
+          // A delivery that was in flight during the export never finished here
+          this.jobCache.set(
+            job.id,
+            job.status === "DISPATCHED" ? transitionJob(job, "QUEUED") : job
+          );
+        }
+        for (const schedule of fixture.schedules) {
+          if (schedule.status === "ACTIVE" && schedule.nextRunAt === undefined) {
+            // Hand-written schedules start like new ones, with their first run
+            this.queueScheduleRun(schedule, this.clock.date());
+          } else {
+            this.saveSchedule(schedule);
+          }
+        }
+
+        this.logger.info(
+          "fixture.imported",
+          `📥 Imported ${fixture.jobs.length} job(s) and ${fixture.schedules.length} schedule(s)`,
+          { jobs: fixture.jobs.length, schedules: fixture.schedules.length, replace }
+        );
+
+        res.status(200).json({
+          jobs: fixture.jobs.length,
+          schedules: fixture.schedules.length,
+          replaced: replace,
+        });
+      } catch (error) {
+        this.logger.error("request.error", "Error processing request", { error });
+        res.status(500).json({ error: "Internal server error" });
+      }
     });
   }
 
-  private async dispatchJob(job: any): Promise<void> {
-    console.log(`Dispatching job ${job.id}`);
+  // Stores a new QUEUED job and dispatches it right away when it is due, or
+  // returns the job an earlier request with the same idempotency key created.
+  private createJob(
+    body: DispatchRequest,
+    idempotencyKey?: string
+  ): { job: Job; replayed: boolean } {
+    const originalJobId =
+      idempotencyKey && this.idempotencyKeys.lookup(idempotencyKey, body, this.clock.now());
+    const originalJob = originalJobId && this.jobCache.get(originalJobId);
+    if (originalJob) {
+      this.logger.info(
+        "job.deduplicated",
+        `Job ${originalJob.id} returned for idempotency key ${idempotencyKey}`,
+        { jobId: originalJob.id, idempotencyKey }
+      );
+      return { job: originalJob, replayed: true };
+    }
 
-    // Update job status to DISPATCHED
-    const dispatchedJob = { ...job, status: "DISPATCHED" };
-    this.jobCache.set(job.id, dispatchedJob);
+    const scheduledFor = body.scheduledFor
+      ? new Date(body.scheduledFor)
+      : this.clock.date();
+    const now = this.clock.date();
+    // Add 2-second buffer plus configured delay to determine if job should be dispatched immediately
+    const bufferTime = new Date(now.getTime() + 2000);
+    const isImmediate = scheduledFor <= bufferTime;
 
-    const webhookHeaders = {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${this.config.webhookSecret}`,
+    const job = newJob(body, scheduledFor, now);
+
+    this.jobCache.set(job.id, job);
+    this.publishEvent("job.created", job);
+    if (idempotencyKey) {
+      this.idempotencyKeys.remember(idempotencyKey, body, job.id, now.getTime());
+    }
+
+    if (isImmediate) {
+      // Dispatch immediately (non-blocking)
+      this.dispatchDueJobs([job]);
+    } else {
+      this.logger.info(
+        "job.scheduled",
+        `Job ${job.id} scheduled for ${job.scheduledFor} (will dispatch when time comes)`,
+        { jobId: job.id, scheduledFor: job.scheduledFor }
+      );
+    }
+
+    this.logger.info("job.created", `Job ${job.id} created`, { jobId: job.id });
+    this.logger.debug("job.created", "Dispatch Response", { job });
+
+    return { job, replayed: false };
+  }
+
+  // Stores a recurring schedule and queues its first run
+  private createSchedule(body: DispatchRequest, idempotencyKey?: string): Schedule {
+    if (idempotencyKey) {
+      throw new ValidationError(
+        "Idempotency keys are not supported for recurring jobs",
+        400,
+        "INVALID_IDEMPOTENCY_KEY"
+      );
+    }
+
+    const now = this.clock.date();
+    const schedule: Schedule = {
+      id: randomId(),
+      status: "ACTIVE",
+      payload: body.payload,
+      createdAt: now.toISOString(),
+      runCount: 0,
     };
+    for (const key of ["cron", "every", "queue", "topic"] as const) {
+      if (body[key] !== undefined) {
+        schedule[key] = body[key];
+      }
+    }
+    if (body.retry && Object.keys(body.retry).length > 0) {
+      schedule.retry = body.retry;
+    }
+
+    this.logger.info(
+      "schedule.created",
+      `Schedule ${schedule.id} created (${schedule.cron ?? `every ${schedule.every}`})`,
+      { scheduleId: schedule.id, cron: schedule.cron, every: schedule.every }
+    );
+
+    return this.queueScheduleRun(schedule, now);
+  }
+
+  // Queues the run that follows `previous` as a regular QUEUED job, so it goes
+  // through the scheduler (and scheduledDelay) like any other future job.
+  private queueScheduleRun(schedule: Schedule, previous: Date): Schedule {
+    const now = this.clock.date();
+    const runAt = nextScheduleRun(schedule, previous, now);
+    const updated: Schedule = { ...schedule };
+    delete updated.nextRunAt;
+    delete updated.nextJobId;
+
+    if (runAt) {
+      const job = newJob(schedule, runAt, now);
+      job.scheduleId = schedule.id;
+      this.jobCache.set(job.id, job);
+      this.publishEvent("job.created", job);
+
+      updated.runCount = schedule.runCount + 1;
+      updated.nextRunAt = job.scheduledFor;
+      updated.nextJobId = job.id;
+
+      this.logger.info(
+        "schedule.run_queued",
+        `Job ${job.id} queued for schedule ${schedule.id} at ${job.scheduledFor}`,
+        { scheduleId: schedule.id, jobId: job.id, scheduledFor: job.scheduledFor }
+      );
+    }
+
+    this.saveSchedule(updated);
+    return updated;
+  }
+
+  // Stores the schedule and keeps the time of its upcoming run in the queue
+  // the scheduler wakes up for, like the job store does for jobs
+  private saveSchedule(schedule: Schedule): void {
+    const nextRun = this.dueScheduleRuns.peek();
+    const runAt =
+      schedule.status === "ACTIVE" && schedule.nextRunAt !== undefined
+        ? new Date(schedule.nextRunAt).getTime()
+        : NaN;
+
+    this.schedules.set(schedule.id, schedule);
+    if (isNaN(runAt)) {
+      this.dueScheduleRuns.delete(schedule.id);
+    } else {
+      this.dueScheduleRuns.set(schedule.id, runAt);
+    }
+
+    if (this.dueScheduleRuns.peek() !== nextRun) {
+      this.armJobScheduler();
+    }
+  }
+
+  private deleteSchedule(id: string): void {
+    this.schedules.delete(id);
+    this.dueScheduleRuns.delete(id);
+  }
+
+  // Queues the following run of every active schedule whose upcoming run
+  // time has come
+  private queueDueScheduleRuns(now: Date): void {
+    for (const id of this.dueScheduleRuns.takeDue(now.getTime())) {
+      const schedule = this.schedules.get(id)!;
+      this.queueScheduleRun(schedule, new Date(schedule.nextRunAt!));
+    }
+  }
+
+  // Cancels the queued runs of a schedule that is paused or deleted. With a
+  // scheduled delay longer than the interval several runs wait at once.
+  private cancelScheduleRuns(schedule: Schedule): void {
+    for (const job of this.jobCache.values()) {
+      if (job.scheduleId === schedule.id && canTransition(job.status, "CANCELLED")) {
+        const cancelledJob = transitionJob(job, "CANCELLED");
+        this.jobCache.set(job.id, cancelledJob);
+        this.publishEvent("job.cancelled", cancelledJob);
+      }
+    }
+  }
+
+  private setupScheduleRoutes(): void {
+    const findSchedule = (req: Request, res: Response): Schedule | undefined => {
+      const schedule = this.schedules.get(req.params.id);
+
+      if (!schedule) {
+        res.status(404).json({
+          error: "Schedule not found",
+          message: `Schedule with id '${req.params.id}' does not exist`,
+          code: "SCHEDULE_NOT_FOUND",
+        });
+      }
+
+      return schedule;
+    };
+
+    this.app.get("/api/schedules", (req: Request, res: Response) => {
+      res.status(200).json({ schedules: Array.from(this.schedules.values()) });
+    });
+
+    this.app.get("/api/schedules/:id", (req: Request, res: Response) => {
+      const schedule = findSchedule(req, res);
+
+      if (schedule) {
+        res.status(200).json(schedule);
+      }
+    });
+
+    this.app.post("/api/schedules/:id/pause", (req: Request, res: Response) => {
+      const schedule = findSchedule(req, res);
+      if (!schedule) return;
+
+      if (schedule.status === "PAUSED") {
+        return res.status(200).json(schedule);
+      }
+
+      this.cancelScheduleRuns(schedule);
+      const paused: Schedule = { ...schedule, status: "PAUSED" };
+      delete paused.nextRunAt;
+      delete paused.nextJobId;
+      this.saveSchedule(paused);
+
+      this.logger.info("schedule.paused", `Schedule ${paused.id} paused`, {
+        scheduleId: paused.id,
+      });
+
+      res.status(200).json(paused);
+    });
+
+    this.app.post("/api/schedules/:id/resume", (req: Request, res: Response) => {
+      const schedule = findSchedule(req, res);
+      if (!schedule) return;
+
+      if (schedule.status === "ACTIVE") {
+        return res.status(200).json(schedule);
+      }
+
+      this.logger.info("schedule.resumed", `Schedule ${schedule.id} resumed`, {
+        scheduleId: schedule.id,
+      });
+
+      res
+        .status(200)
+        .json(this.queueScheduleRun({ ...schedule, status: "ACTIVE" }, this.clock.date()));
+    });
+
+    this.app.delete("/api/schedules/:id", (req: Request, res: Response) => {
+      const schedule = findSchedule(req, res);
+      if (!schedule) return;
+
+      this.cancelScheduleRuns(schedule);
+      this.deleteSchedule(schedule.id);
+
+      this.logger.info("schedule.deleted", `Schedule ${schedule.id} deleted`, {
+        scheduleId: schedule.id,
+      });
+
+      res.status(200).json(schedule);
+    });
+  }
+
+  // Streams job events as Server-Sent Events until the client disconnects.
+  // `jobId` and `status` (both comma separated) narrow the stream down.
+  private setupEventRoutes(): void {
+    this.app.get("/api/events", (req: Request, res: Response) => {
+      const filter: JobEventFilter = {
+        jobIds: queryList(req.query.jobId),
+        statuses: queryList(req.query.status)?.map((status) => status.toUpperCase()),
+      };
+
+      res.status(200).set({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      res.flushHeaders();
+      res.write(": connected\n\n");
+
+      const unsubscribe = this.events.subscribe((event) => {
+        if (matchesEventFilter(event, filter)) {
+          res.write(formatServerSentEvent(event));
+        }
+      });
+      // Comments keep proxies and idle timeouts from dropping a quiet stream
+      const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), EVENT_HEARTBEAT_INTERVAL);
+
+      const close = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        this.eventStreams = this.eventStreams.filter((other) => other !== close);
+        res.end();
+      };
+      this.eventStreams.push(close);
+      req.on("close", close);
+
+      this.logger.debug("events.connected", "Event stream opened", { filter });
+    });
+  }
+
+  // Answers body parser failures (malformed JSON, oversized bodies) in the
+  // same shape as validation errors instead of Express' HTML error page.
+  private setupErrorHandler(): void {
+    this.app.use((err: unknown, req: Request, res: Response, next: NextFunction) => {
+      const type = (err as { type?: string } | undefined)?.type;
+
+      if (type === "entity.parse.failed") {
+        return sendValidationError(
+          res,
+          new ValidationError("Request body must be valid JSON", 400, "INVALID_JSON")
+        );
+      }
+
+      if (type === "entity.too.large") {
+        return res.status(413).json({
+          error: "Payload too large",
+          message: `Request body must not be larger than ${MAX_BODY_SIZE}`,
+          code: "BODY_TOO_LARGE",
+        });
+      }
+
+      next(err);
+    });
+  }
+
+  // Starts the delivery of a due job once the concurrency and rate limits
+  // allow it; until then the job waits in QUEUED. Resolves when the
+  // deliveries this call could start are done, and never rejects.
+  private requestDispatch(job: Job): Promise<void> {
+    if (this.pendingDispatches.indexOf(job.id) === -1) {
+      this.pendingDispatches.push(job.id);
+    }
+    return this.drainPendingDispatches();
+  }
+
+  private drainPendingDispatches(): Promise<void> {
+    const started: Promise<void>[] = [];
+
+    // A stopping server leaves due jobs QUEUED, a store keeps them for the next start
+    while (this.pendingDispatches.length > 0 && !this.stopping) {
+      // Re-read the job, it may have been cancelled or dispatched in the meantime
+      const job = this.jobCache.get(this.pendingDispatches[0]);
+      if (job?.status !== "QUEUED") {
+        this.pendingDispatches.shift();
+        continue;
+      }
+
+      if (!this.limiter.tryAcquire()) {
+        break;
+      }
+      this.pendingDispatches.shift();
+
+      const delivery: Promise<void> = this.dispatchJob(job)
+        .catch((err) => {
+          this.logger.error("job.dispatch_error", `Error dispatching job ${job.id}`, {
+            jobId: job.id,
+            error: err,
+          });
+        })
+        .then(() => {
+          this.deliveries = this.deliveries.filter((other) => other !== delivery);
+          this.limiter.release();
+          this.drainPendingDispatches();
+        });
+      this.deliveries.push(delivery);
+      started.push(delivery);
+    }
+
+    if (this.pendingDispatches.length > 0 && !this.stopping) {
+      this.logger.debug(
+        "dispatch.throttled",
+        `🚦 ${this.pendingDispatches.length} job(s) waiting for a delivery slot`,
+        { pending: this.pendingDispatches.length, inFlight: this.limiter.getInFlight() }
+      );
+
+      // Finished deliveries drain the queue again, only a rate limit needs a timer
+      const retryAfter = this.limiter.retryAfter();
+      if (retryAfter > 0 && !this.pendingTimer) {
+        this.pendingTimer = setTimeout(() => {
+          this.pendingTimer = null;
+          this.drainPendingDispatches();
+        }, retryAfter);
+      }
+    }
+
+    return Promise.all(started).then(() => undefined);
+  }
+
+  private async dispatchJob(job: Job): Promise<void> {
+    const attemptNumber = (job.attemptCount ?? 0) + 1;
+    const retryPolicy = resolveRetryPolicy(this.retryPolicy, job.retry);
+    const budgetAttempt = attemptNumber - (job.baseAttemptCount ?? 0);
 
-    const webhookBody = {
+    this.logger.info(
+      "job.dispatched",
+      `Dispatching job ${job.id} (attempt ${budgetAttempt}/${retryPolicy.maxAttempts})`,
+      { jobId: job.id, attemptNumber, maxAttempts: retryPolicy.maxAttempts }
+    );
+
+    // Update job status to DISPATCHED
+    const dispatchedJob = transitionJob(job, "DISPATCHED", { attemptCount: attemptNumber });
+    delete dispatchedJob.nextAttemptAt;
+    this.jobCache.set(job.id, dispatchedJob);
+    this.publishEvent("attempt.started", dispatchedJob);
+
+    const webhookBody: WebhookBody = {
       jobId: job.id,
       attemptId: randomId(),
-      attemptNumber: 1,
+      attemptNumber,
       status: "DISPATCHED",
       payload: job.payload,
     };
+    const rawBody = JSON.stringify(webhookBody);
+
+    const webhookHeaders: Record<string, string> = {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${this.config.webhookSecret}`,
+    };
+
+    if (this.config.signing === "hmac-sha256") {
+      Object.assign(webhookHeaders, signWebhook(this.config.webhookSecret, rawBody));
+    }
 
-    console.log("Sending webhook to:", this.config.forwardUrl, {
+    const forwardUrl = resolveForwardUrl(job, this.config.routes ?? {}, this.config.forwardUrl);
+
+    this.logger.debug("attempt.started", `Sending webhook to: ${forwardUrl}`, {
+      jobId: job.id,
+      attemptId: webhookBody.attemptId,
       method: "POST",
       headers: webhookHeaders,
       body: webhookBody,
     });
 
+    const latency = this.chaos.latency();
+    if (latency > 0) {
+      this.logger.debug("chaos.latency", `🐒 Holding job ${job.id} back for ${latency}ms`, {
+        jobId: job.id,
+        latency,
+      });
+      await new Promise((resolve) => setTimeout(resolve, latency));
+    }
+
+    const startedAt = this.clock.date();
+    const startTime = Date.now();
+    const attempt: Omit<Attempt, "duration"> = {
+      attemptId: webhookBody.attemptId,
+      attemptNumber,
+      startedAt: startedAt.toISOString(),
+      url: forwardUrl ?? null,
+      statusCode: null,
+    };
+    const finishAttempt = (): Job => ({
+      ...dispatchedJob,
+      attempts: [
+        ...(dispatchedJob.attempts ?? []),
+        { ...attempt, duration: Date.now() - startTime },
+      ],
+    });
+
     try {
-      const response = await fetch(this.config.forwardUrl, {
+      if (!forwardUrl) {
+        const route =
+          job.queue !== undefined
+            ? `queue '${job.queue}'`
+            : job.topic !== undefined
+            ? `topic '${job.topic}'`
+            : undefined;
+        throw new Error(
+          route ? `No forward URL configured for ${route}` : "No default --forward URL configured"
+        );
+      }
+      if (this.chaos.shouldDrop()) {
+        throw new Error("Delivery dropped by chaos mode");
+      }
+
+      const response = await fetch(forwardUrl, {
         method: "POST",
         headers: webhookHeaders,
-        body: JSON.stringify(webhookBody),
+        body: rawBody,
       });
 
+      const responseText = await readResponseBody(response);
+      attempt.statusCode = response.status;
+
+      if (this.chaos.shouldDuplicate()) {
+        this.logger.warn("chaos.duplicated", `🐒 Delivering job ${job.id} twice (chaos mode)`, {
+          jobId: job.id,
+          attemptId: attempt.attemptId,
+        });
+        // Only the first delivery counts for the attempt
+        await fetch(forwardUrl, { method: "POST", headers: webhookHeaders, body: rawBody })
+          .then((duplicate) => readResponseBody(duplicate))
+          .catch(() => undefined);
+      }
+      attempt.responseBody = truncate(responseText, MAX_RESPONSE_BODY_LENGTH);
+
       if (response.ok) {
-        this.jobCache.set(job.id, {
-          ...dispatchedJob,
-          status: "COMPLETED",
+        this.jobCache.set(job.id, transitionJob(finishAttempt(), "COMPLETED"));
+        this.publishAttemptResult("attempt.succeeded", job.id);
+        this.logger.info(
+          "attempt.succeeded",
+          `Webhook Response: ${response.status}`,
+          { jobId: job.id, attemptId: attempt.attemptId, statusCode: response.status }
+        );
+        this.logger.debug("attempt.succeeded", "Webhook Response Body", {
+          jobId: job.id,
+          body: responseText,
         });
-        const responseText = await response.text();
-        console.log("Webhook Response:", response.status, responseText);
       } else {
-        this.jobCache.set(job.id, {
-          ...dispatchedJob,
-          status: "FAILED",
-        });
-        console.log("Webhook Error - Non-200 status:", response.status);
+        this.logger.warn(
+          "attempt.failed",
+          `Webhook Error - Non-200 status: ${response.status}`,
+          { jobId: job.id, attemptId: attempt.attemptId, statusCode: response.status }
+        );
+        this.handleFailedAttempt(finishAttempt(), retryPolicy);
+        this.publishAttemptResult("attempt.failed", job.id);
       }
     } catch (error) {
-      this.jobCache.set(job.id, {
-        ...dispatchedJob,
-        status: "FAILED",
+      attempt.error = error instanceof Error ? error.message : String(error);
+      this.logger.warn("attempt.failed", `Webhook Error: ${attempt.error}`, {
+        jobId: job.id,
+        attemptId: attempt.attemptId,
+        error: attempt.error,
       });
-      console.log("Webhook Error:", error);
+      this.handleFailedAttempt(finishAttempt(), retryPolicy);
+      this.publishAttemptResult("attempt.failed", job.id);
     }
   }
 
-  private startJobScheduler(): void {
-    if (this.jobScheduler) {
-      clearInterval(this.jobScheduler);
+  private publishEvent(type: JobEventType, job: Job): void {
+    this.events.publish({ type, time: this.clock.date().toISOString(), job });
+  }
+
+  // Publishes the outcome of the job's latest attempt along with the job as
+  // it was stored afterwards
+  private publishAttemptResult(type: JobEventType, jobId: string): void {
+    const job = this.jobCache.get(jobId)!;
+
+    this.events.publish({
+      type,
+      time: this.clock.date().toISOString(),
+      job,
+      attempt: job.attempts[job.attempts.length - 1],
+    });
+  }
+
+  // Re-queues the job for another attempt, or marks it FAILED once the retry
+  // policy is exhausted.
+  private handleFailedAttempt(job: Job, retryPolicy: RetryPolicy): void {
+    // Attempts made before a manual retry do not count against the policy
+    const budgetAttempts = job.attemptCount - (job.baseAttemptCount ?? 0);
+
+    if (budgetAttempts >= retryPolicy.maxAttempts) {
+      this.jobCache.set(job.id, transitionJob(job, "FAILED"));
+      this.logger.warn(
+        "job.failed",
+        `Job ${job.id} failed after ${job.attemptCount} attempt(s)`,
+        { jobId: job.id, attemptCount: job.attemptCount }
+      );
+      return;
+    }
+
+    const delay = getRetryDelay(budgetAttempts, retryPolicy);
+    const nextAttemptAt = new Date(this.clock.now() + delay).toISOString();
+
+    this.jobCache.set(job.id, transitionJob(job, "QUEUED", { nextAttemptAt }));
+    this.logger.info(
+      "job.requeued",
+      `Job ${job.id} re-queued, attempt ${job.attemptCount + 1} at ${nextAttemptAt}`,
+      { jobId: job.id, nextAttemptAt }
+    );
+  }
+
+  // When a QUEUED job should be dispatched: retries run on their own
+  // backoff, other jobs at their scheduled time plus the scheduled delay
+  private dueTime(job: Job): number | undefined {
+    if (job.status !== "QUEUED") {
+      return undefined;
     }
 
-    console.log(
-      `⏰ Job scheduler started (checking every 1 second, buffer: 2 seconds, scheduled delay: ${this.config.scheduledDelay} seconds)`
+    const dueAt = job.nextAttemptAt
+      ? new Date(job.nextAttemptAt).getTime()
+      : new Date(job.scheduledFor).getTime() + this.config.scheduledDelay! * 1000;
+    return isNaN(dueAt) ? undefined : dueAt;
+  }
+
+  private startJobScheduler(): void {
+    this.schedulerStarted = true;
+    // Moving the clock changes how long to wait for the next due job
+    this.unwatchClock = this.clock.onChange(() => this.armJobScheduler());
+
+    this.logger.info(
+      "scheduler.started",
+      `⏰ Job scheduler started (${this.dueJobs.size()} job(s) queued, buffer: 2 seconds, scheduled delay: ${this.config.scheduledDelay} seconds)`,
+      { queued: this.dueJobs.size(), scheduledDelay: this.config.scheduledDelay }
     );
 
-    this.jobScheduler = setInterval(() => {
-      this.processScheduledJobs();
-    }, 1000); // Always check every 1 second
+    // Due jobs that were still waiting for a delivery slot when the server stopped
+    this.drainPendingDispatches();
+    this.armJobScheduler();
   }
 
   private stopJobScheduler(): void {
+    if (!this.schedulerStarted) {
+      return;
+    }
+
+    this.schedulerStarted = false;
+    this.unwatchClock?.();
+    this.unwatchClock = null;
     if (this.jobScheduler) {
-      clearInterval(this.jobScheduler);
+      clearTimeout(this.jobScheduler);
       this.jobScheduler = null;
-      console.log("⏹️  Job scheduler stopped");
     }
+    this.logger.info("scheduler.stopped", "⏹️  Job scheduler stopped");
   }
 
-  private async processScheduledJobs(): Promise<void> {
-    const now = new Date();
-    const readyJobs = Array.from(this.jobCache.values()).filter(
-      job => {
-        if (job.status !== "QUEUED") return false;
+  // Sets the single scheduler timer to the next due job or schedule run,
+  // replacing the previous one. Called whenever that time may have changed.
+  private armJobScheduler(): void {
+    if (!this.schedulerStarted) {
+      return;
+    }
+    if (this.jobScheduler) {
+      clearTimeout(this.jobScheduler);
+      this.jobScheduler = null;
+    }
 
-        const scheduledTime = new Date(job.scheduledFor);
-        const delayedTime = new Date(scheduledTime.getTime() + (this.config.scheduledDelay! * 1000));
+    const nextJob = this.dueJobs.peek();
+    const nextRun = this.dueScheduleRuns.peek();
+    const nextDue =
+      nextJob === undefined || nextRun === undefined
+        ? nextJob ?? nextRun
+        : Math.min(nextJob, nextRun);
+    if (nextDue === undefined) {
+      return; // nothing to wait for until a job or schedule is added
+    }
 
-        return delayedTime <= now;
-      }
-    );
+    const wait = Math.min(Math.max(nextDue - this.clock.now(), 0), MAX_TIMER_DELAY);
+    this.jobScheduler = setTimeout(() => {
+      this.jobScheduler = null;
+      this.runScheduledJobs();
+    }, wait);
+  }
+
+  // A failing scheduler pass is logged, it must not take the server down
+  private runScheduledJobs(): Promise<void> {
+    return this.processScheduledJobs().catch((error) => {
+      this.logger.error("scheduler.error", "Error processing scheduled jobs", { error });
+    });
+  }
+
+  private async processScheduledJobs(): Promise<void> {
+    const now = this.clock.date();
+    this.queueDueScheduleRuns(now);
+
+    const readyJobs = this.dueJobs.takeDue(now.getTime()).map((id) => this.jobCache.get(id)!);
+    this.armJobScheduler();
 
     if (readyJobs.length > 0) {
-      console.log(`📋 Processing ${readyJobs.length} scheduled job(s)`);
+      this.logger.debug(
+        "scheduler.processing",
+        `📋 Processing ${readyJobs.length} scheduled job(s)`,
+        { count: readyJobs.length }
+      );
 
-      for (const job of readyJobs) {
-        // Dispatch jobs that are ready and haven't been dispatched yet
-        if (job.status === "QUEUED") {
-          await this.dispatchJob(job);
-        }
+      await this.dispatchDueJobs(readyJobs);
+    }
+  }
+
+  // Dispatches due jobs in parallel, as far as the dispatch limits allow.
+  // With out-of-order dispatch on, jobs that become due within
+  // OUT_OF_ORDER_WINDOW of the first one, from the scheduler or created to
+  // run right away, are collected and dispatched in random order.
+  private dispatchDueJobs(jobs: Job[]): Promise<void> {
+    if (!this.chaos.getConfig().outOfOrder) {
+      return Promise.all(jobs.map((job) => this.requestDispatch(job))).then(() => undefined);
+    }
+
+    if (!this.outOfOrderBatch) {
+      let release: () => void = () => undefined;
+      const released = new Promise<void>((resolve) => (release = resolve));
+      const batch: OutOfOrderBatch = {
+        jobs: [],
+        timer: setTimeout(() => this.releaseOutOfOrderBatch(), OUT_OF_ORDER_WINDOW),
+        release,
+        delivered: released
+          .then(() => this.chaos.order(batch.jobs).map((job) => this.requestDispatch(job)))
+          .then((deliveries) => Promise.all(deliveries))
+          .then(() => undefined),
+      };
+      this.outOfOrderBatch = batch;
+    }
+
+    this.outOfOrderBatch.jobs.push(...jobs);
+    return this.outOfOrderBatch.delivered;
+  }
+
+  // Dispatches the collected jobs right away, or drops them with `discard`
+  // when they are about to be removed
+  private releaseOutOfOrderBatch(discard = false): void {
+    const batch = this.outOfOrderBatch;
+    if (!batch) {
+      return;
+    }
+
+    this.outOfOrderBatch = null;
+    clearTimeout(batch.timer);
+    if (discard) {
+      batch.jobs = [];
+    }
+    batch.release();
+  }
+
+  // Calls `listener` for the job events of `type`, or for every event with
+  // "*". For test suites that embed the server.
+  on(type: JobEventType | "*", listener: JobEventListener): this {
+    this.events.subscribe(listener, type === "*" ? undefined : type);
+    return this;
+  }
+
+  off(type: JobEventType | "*", listener: JobEventListener): this {
+    this.events.unsubscribe(listener, type === "*" ? undefined : type);
+    return this;
+  }
+
+  getJob(id: string): Job | undefined {
+    return this.jobCache.get(id);
+  }
+
+  getJobs(): Job[] {
+    return this.jobCache.values();
+  }
+
+  // Resolves with the job once it is in one of `statuses`, by default any of
+  // COMPLETED, FAILED and CANCELLED. Rejects when that takes longer than the
+  // timeout or the job does not exist.
+  waitForJob(
+    id: string,
+    statuses: JobStatus | JobStatus[] = FINAL_JOB_STATUSES,
+    options: WaitForJobOptions = {}
+  ): Promise<Job> {
+    const expected = Array.isArray(statuses) ? statuses : [statuses];
+    const timeout = options.timeout ?? DEFAULT_WAIT_TIMEOUT;
+
+    return new Promise((resolve, reject) => {
+      const job = this.jobCache.get(id);
+      if (!job) {
+        return reject(new Error(`Job ${id} does not exist`));
+      }
+      if (expected.indexOf(job.status) !== -1) {
+        return resolve(job);
       }
+
+      const listener: JobEventListener = (event) => {
+        if (event.job.id === id && expected.indexOf(event.job.status) !== -1) {
+          unsubscribe();
+          clearTimeout(timer);
+          resolve(event.job);
+        }
+      };
+      const unsubscribe = this.events.subscribe(listener);
+      const timer = setTimeout(() => {
+        unsubscribe();
+        const status = this.jobCache.get(id)?.status;
+        reject(
+          new Error(
+            `Job ${id} did not become ${expected.join(" or ")} within ${timeout}ms, it is ${status}`
+          )
+        );
+      }, timeout);
+    });
+  }
+
+  // Forgets all jobs, schedules and idempotency keys and resets the clock,
+  // so every test starts from an empty server. Waits for in-flight
+  // deliveries first, they would store their jobs again.
+  async reset(): Promise<void> {
+    this.releaseOutOfOrderBatch(true);
+    this.pendingDispatches = [];
+    await Promise.all(this.deliveries);
+
+    for (const job of this.jobCache.values()) {
+      this.jobCache.delete(job.id);
     }
+    this.schedules.clear();
+    this.dueScheduleRuns.clear();
+    this.idempotencyKeys = new IdempotencyCache(this.config.idempotencyWindow);
+    this.clock.reset();
   }
 
-  listen(): void {
-    this.app.listen(this.config.port, () => {
-      console.log(`🚀 Webhook server running on port ${this.config.port}`);
-      console.log(`📮 Forwarding webhooks to: ${this.config.forwardUrl}`);
-      console.log(
-        `🔒 Validating webhooks with secret: ${this.config.webhookSecret.slice(
-          0,
-          6
-        )}...`
-      );
-      console.log(" ");
+  // Resolves with the port once the server accepts requests, which differs
+  // from the configured one for port 0
+  listen(): Promise<number> {
+    this.stopping = false;
+
+    return new Promise((resolve, reject) => {
+      const onListening = () => {
+        const port = this.getPort();
+        this.logListening(port);
 
-      // Start the job scheduler
-      this.startJobScheduler();
+        // Start the job scheduler
+        this.startJobScheduler();
+        resolve(port);
+      };
+
+      this.httpServer = this.app.listen(this.config.port, onListening);
+      this.httpServer?.once("error", (error) => {
+        this.httpServer = undefined;
+        reject(error);
+      });
     });
   }
 
-  stop(): void {
+  private getPort(): number {
+    const address = this.httpServer?.address();
+    return address && typeof address === "object"
+      ? (address as AddressInfo).port
+      : this.config.port;
+  }
+
+  private logListening(port: number): void {
+    this.logger.info(
+      "server.listening",
+      `🚀 Webhook server running on port ${port}`,
+      { port }
+    );
+    if (this.config.forwardUrl) {
+      this.logger.info(
+        "server.listening",
+        `📮 Forwarding webhooks to: ${this.config.forwardUrl}`
+      );
+    }
+    for (const [queue, url] of Object.entries(this.config.routes ?? {})) {
+      this.logger.info("server.listening", `📮 Forwarding '${queue}' webhooks to: ${url}`);
+    }
+    this.logger.info(
+      "server.listening",
+      `🔒 Validating webhooks with secret: ${this.config.webhookSecret.slice(
+        0,
+        6
+      )}...`
+    );
+    if (this.config.apiKey) {
+      this.logger.info("server.listening", "🔑 API requests require an API key");
+    }
+    if (this.config.concurrency || this.config.rateLimit) {
+      this.logger.info(
+        "server.listening",
+        `🚦 Limiting deliveries to ${this.config.concurrency || "unlimited"} in flight and ${
+          this.config.rateLimit || "unlimited"
+        } per second`,
+        { concurrency: this.config.concurrency, rateLimit: this.config.rateLimit }
+      );
+    }
+
+    if (this.chaos.isEnabled()) {
+      this.logger.warn(
+        "server.listening",
+        `🐒 Chaos mode: ${describeChaos(this.chaos.getConfig())}`,
+        { chaos: this.chaos.getConfig() }
+      );
+    }
+
+    const queuedJobs = this.jobCache
+      .values()
+      .filter((job) => job.status === "QUEUED");
+    if (queuedJobs.length > 0) {
+      this.logger.info(
+        "server.listening",
+        `📦 Restored ${queuedJobs.length} queued job(s)`
+      );
+    }
+  }
+
+  // Stops the scheduler, closes the HTTP server and waits for in-flight
+  // deliveries, up to `timeout`. Deliveries still running after that are
+  // abandoned; a file store queues them again on the next start.
+  async stop(options: StopOptions = {}): Promise<void> {
+    if (options.signal) {
+      this.logger.info("server.stopping", `Received ${options.signal}, shutting down...`, {
+        signal: options.signal,
+      });
+    }
+    this.stopping = true;
     this.stopJobScheduler();
+    // Left QUEUED like other due jobs, the next start dispatches them
+    this.releaseOutOfOrderBatch();
+    if (this.pendingTimer) {
+      clearTimeout(this.pendingTimer);
+      this.pendingTimer = null;
+    }
+    // Open event streams would otherwise keep the HTTP server from closing
+    for (const close of this.eventStreams.slice()) {
+      close();
+    }
+
+    const httpServer = this.httpServer;
+    this.httpServer = undefined;
+    const closed = httpServer
+      ? new Promise<void>((resolve) => {
+          httpServer.close(() => resolve());
+          // Keep-alive connections would otherwise hold the server open
+          httpServer.closeIdleConnections?.();
+        })
+      : Promise.resolve();
+
+    if (this.deliveries.length > 0) {
+      const timeout = options.timeout ?? DEFAULT_STOP_TIMEOUT;
+      this.logger.info(
+        "server.stopping",
+        `🛑 Waiting up to ${timeout}ms for ${this.deliveries.length} in-flight deliveries`,
+        { inFlight: this.deliveries.length, timeout }
+      );
+
+      let timer: NodeJS.Timeout | undefined;
+      const timedOut = await Promise.race([
+        Promise.all(this.deliveries).then(() => false),
+        new Promise<boolean>((resolve) => {
+          timer = setTimeout(() => resolve(true), timeout);
+        }),
+      ]);
+      clearTimeout(timer!);
+
+      if (timedOut) {
+        this.logger.warn(
+          "server.stopping",
+          `Abandoned ${this.deliveries.length} delivery(ies) still in flight after ${timeout}ms`,
+          { inFlight: this.deliveries.length }
+        );
+        this.deliveries = [];
+      }
+    }
+    // A file store writes its changes in batches, the process may exit next
+    this.jobCache.flush?.();
+
+    await closed;
+    if (httpServer) {
+      this.logger.info("server.stopped", "👋 Server stopped");
+    }
   }
 }
 
+const isRecurring = (body: DispatchRequest): boolean => {
+  return body.cron !== undefined || body.every !== undefined;
+};
+
+// A QUEUED job for a dispatch request or a run of a recurring schedule
+const newJob = (
+  body: Pick<DispatchRequest, "payload" | "queue" | "topic" | "retry">,
+  scheduledFor: Date,
+  now: Date
+): Job => {
+  const job: Job = {
+    id: randomId(),
+    status: "QUEUED",
+    scheduledFor: scheduledFor.toISOString(),
+    payload: body.payload,
+    createdAt: now.toISOString(),
+    attemptCount: 0,
+    attempts: [],
+  };
+
+  // Used to pick the forward URL when routes are configured
+  if (body.queue !== undefined) {
+    job.queue = body.queue;
+  }
+  if (body.topic !== undefined) {
+    job.topic = body.topic;
+  }
+
+  // Per-job retry override, merged over the server policy at dispatch time
+  if (body.retry && Object.keys(body.retry).length > 0) {
+    job.retry = body.retry;
+  }
+
+  return job;
+};
+
+// Page size of GET /api/jobs when no limit is given, and the largest allowed
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 500;
+
+const queryString = (value: unknown): string | undefined => {
+  return typeof value === "string" && value !== "" ? value : undefined;
+};
+
+const queryList = (value: unknown): string[] | undefined => {
+  return queryString(value)
+    ?.split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+};
+
+const queryNumber = (value: unknown): number | undefined => {
+  const string = queryString(value);
+  return string === undefined ? undefined : Number(string);
+};
+
+// Milliseconds between the keep-alive comments of GET /api/events
+const EVENT_HEARTBEAT_INTERVAL = 15000;
+
+// Longest webhook response body kept in a job's attempt history
+const MAX_RESPONSE_BODY_LENGTH = 1024;
+
+const readResponseBody = async (response: globalThis.Response): Promise<string> => {
+  try {
+    return await response.text();
+  } catch {
+    return "";
+  }
+};
+
+const truncate = (value: string, length: number): string => {
+  return value.length > length ? `${value.slice(0, length)}...` : value;
+};
+
+const VALIDATION_ERROR_LABELS: Record<number, string> = {
+  400: "Invalid request",
+  409: "Conflict",
+  422: "Validation failed",
+};
+
+// Sends a ValidationError as a `{ error, message, code }` response, anything
+// else is rethrown
+const sendValidationError = (res: Response, error: unknown) => {
+  if (!(error instanceof ValidationError)) {
+    throw error;
+  }
+
+  return res.status(error.status).json(validationErrorBody(error));
+};
+
+const validationErrorBody = (error: ValidationError) => ({
+  error: VALIDATION_ERROR_LABELS[error.status] ?? "Invalid request",
+  message: error.message,
+  code: error.code,
+});
+
 const randomId = () => {
   return (
     Math.random().toString(36).substring(2, 15) +
@@ -0,0 +1,72 @@
+import crypto from "crypto";
+
+export type SigningMode = "hmac-sha256";
+
+export const SIGNATURE_HEADER = "X-Dispatched-Signature";
+export const TIMESTAMP_HEADER = "X-Dispatched-Timestamp";
+
+// Seconds a signed webhook stays valid, to reject replayed requests
+export const DEFAULT_SIGNATURE_TOLERANCE = 300;
+
+export interface VerifyWebhookSignatureOptions {
+  secret: string;
+  body: string; // raw request body, exactly as received
+  signature: string | undefined; // value of the X-Dispatched-Signature header
+  timestamp: string | undefined; // value of the X-Dispatched-Timestamp header
+  tolerance?: number; // seconds, defaults to DEFAULT_SIGNATURE_TOLERANCE
+  now?: number; // milliseconds since epoch, defaults to Date.now()
+}
+
+export const computeSignature = (
+  secret: string,
+  timestamp: string,
+  body: string
+): string => {
+  const digest = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+
+  return `sha256=${digest}`;
+};
+
+// Headers to add to a webhook request so receivers can verify it
+export const signWebhook = (
+  secret: string,
+  body: string,
+  now: number = Date.now()
+): Record<string, string> => {
+  const timestamp = String(Math.floor(now / 1000));
+
+  return {
+    [TIMESTAMP_HEADER]: timestamp,
+    [SIGNATURE_HEADER]: computeSignature(secret, timestamp, body),
+  };
+};
+
+// Returns true when the signature matches the body and the timestamp is
+// within the replay window.
+export const verifyWebhookSignature = ({
+  secret,
+  body,
+  signature,
+  timestamp,
+  tolerance = DEFAULT_SIGNATURE_TOLERANCE,
+  now = Date.now(),
+}: VerifyWebhookSignatureOptions): boolean => {
+  if (!signature || !timestamp || !/^\d+$/.test(timestamp)) {
+    return false;
+  }
+
+  if (Math.abs(now / 1000 - Number(timestamp)) > tolerance) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeSignature(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+};
@@ -0,0 +1,114 @@
+import fs from "fs";
+import path from "path";
+import { Job, transitionJob } from "./job";
+
+// Storage behind `Server`. Kept synchronous so request handlers stay simple;
+// implementations are expected to be cheap enough for local development.
+export interface JobStore {
+  get(id: string): Job | undefined;
+  set(id: string, job: Job): void;
+  delete(id: string): boolean;
+  values(): Job[];
+  flush?(): void; // writes changes a store holds back, called when the server stops
+}
+
+export class MemoryJobStore implements JobStore {
+  protected jobs = new Map<string, Job>();
+
+  get(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  set(id: string, job: Job): void {
+    this.jobs.set(id, job);
+  }
+
+  delete(id: string): boolean {
+    return this.jobs.delete(id);
+  }
+
+  values(): Job[] {
+    return Array.from(this.jobs.values());
+  }
+}
+
+// Keeps jobs in memory and writes the whole set to a JSON file, so jobs
+// survive a restart of `listen`. Changes made in the same tick are written
+// together, bulk changes like an import would otherwise rewrite the file for
+// every job.
+export class FileJobStore extends MemoryJobStore {
+  private filePath: string;
+  private pendingSave: NodeJS.Immediate | null = null;
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = path.resolve(filePath);
+    this.load();
+  }
+
+  set(id: string, job: Job): void {
+    super.set(id, job);
+    this.scheduleSave();
+  }
+
+  delete(id: string): boolean {
+    const deleted = super.delete(id);
+    if (deleted) {
+      this.scheduleSave();
+    }
+    return deleted;
+  }
+
+  // Writes the pending changes right away
+  flush(): void {
+    if (this.pendingSave) {
+      clearImmediate(this.pendingSave);
+      this.pendingSave = null;
+      this.save();
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.pendingSave) {
+      this.pendingSave = setImmediate(() => {
+        this.pendingSave = null;
+        this.save();
+      });
+    }
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const contents = fs.readFileSync(this.filePath, "utf8");
+    let data: { jobs?: unknown } | null;
+    try {
+      data = contents.trim() ? JSON.parse(contents) : { jobs: [] };
+    } catch (error) {
+      throw new Error(
+        `Invalid job store file: ${this.filePath} is not valid JSON (${(error as Error).message})`
+      );
+    }
+
+    if (!data || !Array.isArray(data.jobs)) {
+      throw new Error(`Invalid job store file: ${this.filePath}`);
+    }
+
+    for (const job of data.jobs as Job[]) {
+      // A delivery interrupted by the restart never finished, so queue it again
+      const restored = job.status === "DISPATCHED" ? transitionJob(job, "QUEUED") : job;
+      this.jobs.set(restored.id, restored);
+    }
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    // Write to a temporary file first so a crash never leaves a truncated store
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify({ jobs: this.values() }, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
@@ -0,0 +1,31 @@
+const UNIT_MILLISECONDS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// Parses relative durations like '30s', '5m', '1h' or '2d' into milliseconds.
+// Returns undefined for anything else.
+export const parseDuration = (value: string): number | undefined => {
+  const match = /^(\d+)([smhd])$/.exec(value.trim());
+
+  if (!match) {
+    return undefined;
+  }
+
+  return parseInt(match[1], 10) * UNIT_MILLISECONDS[match[2]];
+};
+
+// Turns a relative duration into an ISO date from `now`; anything else is
+// passed through unchanged for the server to interpret.
+export const resolveScheduledFor = (
+  value: string,
+  now: number = Date.now()
+): string => {
+  const duration = parseDuration(value);
+
+  return duration === undefined
+    ? value
+    : new Date(now + duration).toISOString();
+};
@@ -0,0 +1,250 @@
+import { nextCronRun, parseCron } from "./cron";
+import { DispatchRequest } from "./job";
+import { RETRY_POLICY_KEYS, RetryPolicy } from "./retry";
+import { parseDuration } from "./time";
+
+// Largest job payload accepted by POST /api/jobs/dispatch, as serialized JSON
+export const MAX_PAYLOAD_SIZE = 64 * 1024;
+
+// Most jobs accepted by one POST /api/jobs/dispatch/batch request
+export const MAX_BATCH_SIZE = 1000;
+
+// Limit of the JSON body parser. Kept above MAX_PAYLOAD_SIZE so an oversized
+// payload gets a PAYLOAD_TOO_LARGE validation error instead of a parser error.
+export const MAX_BODY_SIZE = "10mb";
+
+// Thrown for request bodies the production API would reject. `status` is 400
+// for malformed requests, 422 for well-formed values that are not valid and
+// 409 for requests that conflict with an earlier one.
+export class ValidationError extends Error {
+  status: number;
+  code: string;
+
+  constructor(message: string, status: number, code: string) {
+    super(message);
+    this.name = "ValidationError";
+    this.status = status;
+    this.code = code;
+    Object.setPrototypeOf(this, ValidationError.prototype);
+  }
+}
+
+// `idempotencyKey` is checked together with the Idempotency-Key header
+const DISPATCH_FIELDS = [
+  "payload",
+  "scheduledFor",
+  "queue",
+  "topic",
+  "retry",
+  "idempotencyKey",
+  "cron",
+  "every",
+];
+const UPDATE_FIELDS = ["scheduledFor"];
+
+// A date, or a date and time with a UTC offset: '2030-01-01',
+// '2030-01-01T09:30:00Z', '2030-01-01T09:30:00.000+02:00'
+const ISO_DATE_PATTERN =
+  /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?$/;
+
+export const isObject = (value: unknown): value is Record<string, unknown> => {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+};
+
+const readBody = (body: unknown, fields: string[]): Record<string, unknown> => {
+  if (!isObject(body)) {
+    throw new ValidationError("Request body must be a JSON object", 400, "INVALID_BODY");
+  }
+
+  const unknownFields = Object.keys(body).filter((key) => fields.indexOf(key) === -1);
+  if (unknownFields.length > 0) {
+    throw new ValidationError(
+      `Unknown field(s): ${unknownFields.map((key) => `'${key}'`).join(", ")}`,
+      400,
+      "UNKNOWN_FIELD"
+    );
+  }
+
+  return body;
+};
+
+const validateDate = (value: unknown, field: string): string => {
+  if (typeof value !== "string") {
+    throw new ValidationError(`'${field}' must be a string`, 400, "INVALID_FIELD_TYPE");
+  }
+
+  if (!ISO_DATE_PATTERN.test(value) || isNaN(new Date(value).getTime())) {
+    throw new ValidationError(
+      `'${field}' must be an ISO 8601 date, like '2030-01-01T09:30:00Z'`,
+      422,
+      "INVALID_DATE"
+    );
+  }
+
+  return value;
+};
+
+const validateName = (value: unknown, field: string): string => {
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new ValidationError(
+      `'${field}' must be a non-empty string`,
+      400,
+      "INVALID_FIELD_TYPE"
+    );
+  }
+
+  return value;
+};
+
+const validateRetry = (value: unknown): Partial<RetryPolicy> => {
+  if (!isObject(value)) {
+    throw new ValidationError("'retry' must be an object", 400, "INVALID_FIELD_TYPE");
+  }
+
+  // Unknown retry settings are ignored, like in the server's --retry options
+  const policy: Partial<RetryPolicy> = {};
+  for (const key of RETRY_POLICY_KEYS) {
+    const setting = value[key];
+    if (setting === undefined) continue;
+
+    if (typeof setting !== "number" || !isFinite(setting) || setting < 0) {
+      throw new ValidationError(
+        `'retry.${key}' must be a non-negative number`,
+        422,
+        "INVALID_RETRY_POLICY"
+      );
+    }
+    policy[key] = setting;
+  }
+
+  return policy;
+};
+
+export const validateCron = (value: unknown): string => {
+  if (typeof value !== "string") {
+    throw new ValidationError("'cron' must be a string", 400, "INVALID_FIELD_TYPE");
+  }
+
+  try {
+    if (!nextCronRun(parseCron(value), new Date())) {
+      throw new Error(`Cron expression '${value}' never matches`);
+    }
+  } catch (error) {
+    throw new ValidationError((error as Error).message, 422, "INVALID_CRON");
+  }
+
+  return value;
+};
+
+export const validateInterval = (value: unknown): string => {
+  if (typeof value !== "string") {
+    throw new ValidationError("'every' must be a string", 400, "INVALID_FIELD_TYPE");
+  }
+
+  const interval = parseDuration(value);
+  if (interval === undefined || interval < 1000) {
+    throw new ValidationError(
+      "'every' must be an interval of at least one second, like '30s', '5m', '1h' or '1d'",
+      422,
+      "INVALID_INTERVAL"
+    );
+  }
+
+  return value;
+};
+
+// Checks the body of POST /api/jobs/dispatch and returns the validated fields
+export const validateDispatchRequest = (body: unknown): DispatchRequest => {
+  const fields = readBody(body, DISPATCH_FIELDS);
+
+  if (fields.payload === undefined) {
+    throw new ValidationError("'payload' is required", 400, "MISSING_FIELD");
+  }
+
+  if (!isObject(fields.payload)) {
+    throw new ValidationError("'payload' must be a JSON object", 400, "INVALID_FIELD_TYPE");
+  }
+
+  const payloadSize = Buffer.byteLength(JSON.stringify(fields.payload));
+  if (payloadSize > MAX_PAYLOAD_SIZE) {
+    throw new ValidationError(
+      `'payload' must not be larger than ${MAX_PAYLOAD_SIZE} bytes (got ${payloadSize})`,
+      422,
+      "PAYLOAD_TOO_LARGE"
+    );
+  }
+
+  const request: DispatchRequest = { payload: fields.payload };
+
+  if (fields.scheduledFor !== undefined) {
+    request.scheduledFor = validateDate(fields.scheduledFor, "scheduledFor");
+  }
+  if (fields.queue !== undefined) {
+    request.queue = validateName(fields.queue, "queue");
+  }
+  if (fields.topic !== undefined) {
+    request.topic = validateName(fields.topic, "topic");
+  }
+  if (fields.retry !== undefined) {
+    request.retry = validateRetry(fields.retry);
+  }
+
+  // Recurring jobs run on their own schedule instead of at `scheduledFor`
+  if (fields.cron !== undefined && fields.every !== undefined) {
+    throw new ValidationError(
+      "Only one of 'cron' and 'every' can be set",
+      400,
+      "CONFLICTING_FIELDS"
+    );
+  }
+  if ((fields.cron !== undefined || fields.every !== undefined) && fields.scheduledFor !== undefined) {
+    throw new ValidationError(
+      "'scheduledFor' cannot be combined with 'cron' or 'every'",
+      400,
+      "CONFLICTING_FIELDS"
+    );
+  }
+  if (fields.cron !== undefined) {
+    request.cron = validateCron(fields.cron);
+  }
+  if (fields.every !== undefined) {
+    request.every = validateInterval(fields.every);
+  }
+
+  return request;
+};
+
+// Checks the envelope of POST /api/jobs/dispatch/batch and returns its items,
+// each of which still has to go through validateDispatchRequest
+export const validateBatchRequest = (body: unknown): unknown[] => {
+  const fields = readBody(body, ["jobs"]);
+
+  if (!Array.isArray(fields.jobs)) {
+    throw new ValidationError(
+      "'jobs' must be an array of dispatch requests",
+      400,
+      "INVALID_FIELD_TYPE"
+    );
+  }
+
+  if (fields.jobs.length === 0 || fields.jobs.length > MAX_BATCH_SIZE) {
+    throw new ValidationError(
+      `'jobs' must contain between 1 and ${MAX_BATCH_SIZE} items`,
+      422,
+      "INVALID_BATCH_SIZE"
+    );
+  }
+
+  return fields.jobs;
+};
+
+// Checks the body of PATCH /api/jobs/:id
+export const validateUpdateRequest = (body: unknown): { scheduledFor: string } => {
+  const fields = readBody(body, UPDATE_FIELDS);
+
+  if (fields.scheduledFor === undefined) {
+    throw new ValidationError("'scheduledFor' is required", 400, "MISSING_FIELD");
+  }
+
+  return { scheduledFor: validateDate(fields.scheduledFor, "scheduledFor") };
+};
@@ -1,13 +1,15 @@
 #!/usr/bin/env node
 
 // Simple test script to verify the scheduling functionality
-// Run this after starting the server with: node dist/index.js listen --secret "test123" --forward "http://httpbin.org/post" --scheduledDelay 5
+// Run this after starting a receiver with: node dist/index.js receive --port 3000 --secret "test123"
+// and the server with: node dist/index.js listen --secret "test123" --forward "http://localhost:3000/webhook" --scheduledDelay 5
 //
 // Usage: node tests/manual/test-scheduling.js
 
 console.log("🧪 Testing Dispatched CLI Scheduling Functionality");
-console.log("Make sure you have the server running with:");
-console.log('node dist/index.js listen --secret "test123" --forward "http://httpbin.org/post" --scheduledDelay 5');
+console.log("Make sure you have a receiver and the server running with:");
+console.log('node dist/index.js receive --port 3000 --secret "test123"');
+console.log('node dist/index.js listen --secret "test123" --forward "http://localhost:3000/webhook" --scheduledDelay 5');
 console.log("");
 
 const SERVER_URL = "http://localhost:3100";
@@ -82,7 +84,7 @@ async function test() {
   }
 
   console.log("🎉 All tests completed! Monitor the server logs to see scheduled jobs being dispatched.");
-  console.log("💡 The server checks for ready jobs every 1 second and adds a 5-second delay (as configured with --scheduledDelay 5)");
+  console.log("💡 The server dispatches jobs as soon as they are due, after a 5-second delay (as configured with --scheduledDelay 5)");
 }
 
 test().catch(console.error);
\ No newline at end of file